@@ -7,11 +7,13 @@ module.exports = {
       env: {
         PORT: 7070,
         NODE_ENV: "production",
+        INFERENCE_BACKEND: "python",
         PYTHON_API_URL: "http://localhost:6969/api/detect-age",
       },
       env_production: {
         PORT: 7070,
         NODE_ENV: "production",
+        INFERENCE_BACKEND: "python",
         PYTHON_API_URL: "http://localhost:6969/api/detect-age",
       },
     },
@@ -0,0 +1,77 @@
+/**
+ * <age-detector> for partner pages. Loads /embed in an iframe and re-emits
+ * its messages as `result`, `error` and `cancel` DOM events, with the
+ * EmbedMessage from src/types as `event.detail`.
+ *
+ *   <script src="https://age-detection.kdx.web.id/embed.js" defer></script>
+ *   <age-detector theme="light" camera="off" threshold="18"></age-detector>
+ */
+(function () {
+  if (!window.customElements || customElements.get("age-detector")) return;
+
+  const script = document.currentScript;
+  const appOrigin = new URL(script ? script.src : location.href).origin;
+  const EVENT_TYPES = ["result", "error", "cancel"];
+
+  class AgeDetectorElement extends HTMLElement {
+    static get observedAttributes() {
+      return ["theme", "camera", "threshold", "height"];
+    }
+
+    constructor() {
+      super();
+      this.onMessage = this.onMessage.bind(this);
+    }
+
+    connectedCallback() {
+      window.addEventListener("message", this.onMessage);
+      this.render();
+    }
+
+    disconnectedCallback() {
+      window.removeEventListener("message", this.onMessage);
+    }
+
+    attributeChangedCallback() {
+      if (this.isConnected) this.render();
+    }
+
+    render() {
+      const params = new URLSearchParams({ origin: location.origin });
+      ["theme", "camera", "threshold"].forEach((name) => {
+        const value = this.getAttribute(name);
+        if (value) params.set(name, value);
+      });
+
+      if (!this.frame) {
+        this.frame = document.createElement("iframe");
+        this.frame.title = "AI Age Detector";
+        this.frame.allow = "camera";
+        this.frame.style.border = "0";
+        this.frame.style.width = "100%";
+        this.appendChild(this.frame);
+      }
+      this.frame.style.height = this.getAttribute("height") || "720px";
+      this.frame.src = appOrigin + "/embed?" + params.toString();
+    }
+
+    onMessage(event) {
+      const data = event.data;
+      if (
+        event.origin !== appOrigin ||
+        !this.frame ||
+        event.source !== this.frame.contentWindow ||
+        !data ||
+        data.source !== "age-detector" ||
+        EVENT_TYPES.indexOf(data.type) === -1
+      ) {
+        return;
+      }
+      this.dispatchEvent(
+        new CustomEvent(data.type, { detail: data, bubbles: true })
+      );
+    }
+  }
+
+  customElements.define("age-detector", AgeDetectorElement);
+})();
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AgeGateOptions, AgeGateResponse } from "@/types";
+import { AGE_GATE_CONFIG } from "@/lib/config";
+import { RequestValidationError } from "@/lib/errors";
+import { decideAgeGate, getAgeGatePolicy } from "@/lib/ageGate";
+import {
+  detectionErrorResponse,
+  prepareUpload,
+  readFormData,
+  runDetection,
+  withCircuitState,
+} from "@/lib/detection";
+import { MAX_REQUEST_BODY_SIZE } from "@/lib/schemas";
+
+// Missing means the default threshold; anything else must be on the list
+function readThreshold(value: FormDataEntryValue | null): number {
+  if (value === null || value === "") return AGE_GATE_CONFIG.THRESHOLDS[0];
+
+  const threshold = typeof value === "string" ? Number(value) : NaN;
+  if (!AGE_GATE_CONFIG.THRESHOLDS.includes(threshold)) {
+    throw new RequestValidationError(
+      "INVALID_FIELD",
+      `Threshold must be one of ${AGE_GATE_CONFIG.THRESHOLDS.join(", ")}`,
+      "threshold"
+    );
+  }
+  return threshold;
+}
+
+export async function GET() {
+  const options: AgeGateOptions = {
+    thresholds: AGE_GATE_CONFIG.THRESHOLDS,
+    buffer_years: AGE_GATE_CONFIG.BUFFER_YEARS,
+    min_confidence: AGE_GATE_CONFIG.MIN_CONFIDENCE,
+  };
+  return NextResponse.json(options);
+}
+
+export async function POST(request: NextRequest) {
+  return withCircuitState(await handleAgeGate(request));
+}
+
+async function handleAgeGate(request: NextRequest): Promise<NextResponse> {
+  try {
+    const formData = await readFormData(request, MAX_REQUEST_BODY_SIZE);
+    const threshold = readThreshold(formData.get("threshold"));
+    const { image, metadataRemoved } = await prepareUpload(
+      formData.get("image")
+    );
+
+    const detection = await runDetection(image);
+    const response: AgeGateResponse = {
+      success: true,
+      decision: decideAgeGate(detection, getAgeGatePolicy(threshold)),
+      metadata_removed: metadataRemoved,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    return detectionErrorResponse(error);
+  }
+}
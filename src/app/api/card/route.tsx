@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ImageResponse } from "next/og";
+import { SHARE_CONFIG } from "@/lib/config";
+import { ImageValidationError } from "@/lib/errors";
+import { validateImage } from "@/lib/imageValidation";
+import { ShareCardData, parseCardData } from "@/lib/shareCard";
+
+const CARD_WIDTH = 1200;
+const CARD_HEIGHT = 630;
+
+// Formats the card renderer can embed
+const FACE_MIME_TYPES = ["image/jpeg", "image/png"];
+
+function ResultCard({ data, face }: { data: ShareCardData; face?: string }) {
+  const range =
+    data.ageMin !== null && data.ageMax !== null
+      ? `${data.ageMin}–${data.ageMax} years`
+      : null;
+  const confidence =
+    data.confidence !== null ? Math.round(data.confidence * 100) : null;
+
+  return (
+    <div
+      style={{
+        width: "100%",
+        height: "100%",
+        display: "flex",
+        alignItems: "center",
+        gap: 64,
+        padding: 72,
+        background:
+          "linear-gradient(135deg, #020617 0%, #111827 55%, #0f172a 100%)",
+        color: "#f8fafc",
+        fontFamily: "sans-serif",
+      }}
+    >
+      {face && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={face}
+          alt=""
+          width={380}
+          height={380}
+          style={{
+            borderRadius: 32,
+            objectFit: "cover",
+            border: "4px solid #334155",
+          }}
+        />
+      )}
+      <div style={{ display: "flex", flexDirection: "column", flex: 1 }}>
+        <div style={{ display: "flex", fontSize: 32, color: "#94a3b8" }}>
+          AI Age Detector
+        </div>
+        <div
+          style={{
+            display: "flex",
+            fontSize: 36,
+            color: "#cbd5e1",
+            marginTop: 24,
+          }}
+        >
+          Estimated age
+        </div>
+        <div
+          style={{
+            display: "flex",
+            fontSize: 180,
+            fontWeight: 700,
+            lineHeight: 1,
+          }}
+        >
+          {data.age}
+        </div>
+        {range && (
+          <div
+            style={{
+              display: "flex",
+              fontSize: 40,
+              color: "#e2e8f0",
+              marginTop: 16,
+            }}
+          >
+            {range}
+          </div>
+        )}
+        {confidence !== null && (
+          <div
+            style={{ display: "flex", flexDirection: "column", marginTop: 32 }}
+          >
+            <div style={{ display: "flex", fontSize: 28, color: "#94a3b8" }}>
+              {`Confidence ${confidence}%`}
+            </div>
+            <div
+              style={{
+                display: "flex",
+                width: 480,
+                height: 14,
+                marginTop: 12,
+                borderRadius: 7,
+                background: "#1e293b",
+              }}
+            >
+              <div
+                style={{
+                  width: `${confidence}%`,
+                  height: "100%",
+                  borderRadius: 7,
+                  background: "#34d399",
+                }}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function renderCard(data: ShareCardData, face?: string) {
+  return new ImageResponse(<ResultCard data={data} face={face} />, {
+    width: CARD_WIDTH,
+    height: CARD_HEIGHT,
+    headers: { "Cache-Control": "public, max-age=86400, immutable" },
+  });
+}
+
+function invalidCard() {
+  return NextResponse.json(
+    { success: false, error: "A valid age is required to render a card" },
+    { status: 400 }
+  );
+}
+
+// Card without a face, used by link unfurlers through the share page
+export async function GET(req: NextRequest) {
+  const data = parseCardData((name) => req.nextUrl.searchParams.get(name));
+  return data ? renderCard(data) : invalidCard();
+}
+
+// Card with the face the user chose to include, already cropped or blurred
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const data = parseCardData((name) => {
+      const value = formData.get(name);
+      return typeof value === "string" ? value : null;
+    });
+    if (!data) return invalidCard();
+
+    const face = formData.get("face");
+    if (!(face instanceof File)) return renderCard(data);
+
+    if (face.size > SHARE_CONFIG.MAX_FACE_BYTES) {
+      return NextResponse.json(
+        { success: false, error: "Face image is too large" },
+        { status: 400 }
+      );
+    }
+
+    const bytes = await face.arrayBuffer();
+    const { mimeType } = validateImage(bytes);
+    if (!FACE_MIME_TYPES.includes(mimeType)) {
+      return NextResponse.json(
+        { success: false, error: "Face image must be a JPEG or PNG" },
+        { status: 400 }
+      );
+    }
+
+    const faceUrl = `data:${mimeType};base64,${Buffer.from(bytes).toString("base64")}`;
+    const response = renderCard(data, faceUrl);
+    // Personal images must not end up in shared caches
+    response.headers.set("Cache-Control", "private, no-store");
+    return response;
+  } catch (error) {
+    if (error instanceof ImageValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+    console.error("Failed to render result card:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to render result card" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { HealthReport } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+// Liveness: answers as long as the Next.js process is serving requests
+export async function GET() {
+  const report: HealthReport = {
+    status: "ok",
+    uptime_seconds: Math.round(process.uptime()),
+    timestamp: new Date().toISOString(),
+  };
+  return NextResponse.json(report, {
+    headers: { "Cache-Control": "no-store" },
+  });
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { detectionErrorResponse } from "@/lib/detection";
+import { getJobManager, getJobOwner } from "@/lib/jobs";
+
+interface JobRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: JobRouteContext) {
+  try {
+    const { id } = await params;
+    return NextResponse.json(getJobManager().get(id, getJobOwner(request)), {
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    return detectionErrorResponse(error);
+  }
+}
+
+// Cancels the job; results that already came in stay readable
+export async function DELETE(
+  request: NextRequest,
+  { params }: JobRouteContext
+) {
+  try {
+    const { id } = await params;
+    return NextResponse.json(getJobManager().cancel(id, getJobOwner(request)));
+  } catch (error) {
+    return detectionErrorResponse(error);
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { JOB_CONFIG } from "@/lib/config";
+import { RequestValidationError } from "@/lib/errors";
+import { detectionErrorResponse, readFormData } from "@/lib/detection";
+import { getJobManager, getJobOwner } from "@/lib/jobs";
+
+// Queues one or more `image` fields and answers straight away with the job
+export async function POST(request: NextRequest) {
+  try {
+    // Without a Content-Length the upload may take up to the per-job limit
+    const declared =
+      Number(request.headers.get("content-length")) || JOB_CONFIG.MAX_BYTES;
+    if (declared > JOB_CONFIG.MAX_BYTES) {
+      throw new RequestValidationError(
+        "FILE_TOO_LARGE",
+        `A job upload can be at most ${JOB_CONFIG.MAX_BYTES} bytes`
+      );
+    }
+
+    const manager = getJobManager();
+    const release = manager.reserve(declared);
+    try {
+      const formData = await readFormData(request, declared);
+      const job = await manager.create(
+        formData.getAll("image"),
+        getJobOwner(request)
+      );
+      return NextResponse.json(job, {
+        status: 202,
+        headers: { Location: `/api/jobs/${job.id}` },
+      });
+    } finally {
+      release();
+    }
+  } catch (error) {
+    return detectionErrorResponse(error);
+  }
+}
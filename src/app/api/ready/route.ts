@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { checkReadiness } from "@/lib/readiness";
+
+export const dynamic = "force-dynamic";
+
+// Readiness: probes the inference backend, 503 until it can serve predictions
+export async function GET() {
+  const report = await checkReadiness();
+  return NextResponse.json(report, {
+    status: report.status === "ready" ? 200 : 503,
+    headers: { "Cache-Control": "no-store" },
+  });
+}
@@ -0,0 +1,6 @@
+import { NextRequest } from "next/server";
+import { handleDetectRequest } from "@/lib/detection";
+
+export async function POST(request: NextRequest) {
+  return handleDetectRequest(request);
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { SHARE_CONFIG } from "@/lib/config";
+import { buildOpenApiDocument } from "@/lib/openapi";
+
+export async function GET() {
+  return NextResponse.json(buildOpenApiDocument(SHARE_CONFIG.SITE_URL));
+}
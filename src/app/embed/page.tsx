@@ -0,0 +1,34 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import EmbeddedDetector from "@/components/EmbeddedDetector";
+import { parseEmbedConfig } from "@/lib/embed";
+
+export const metadata: Metadata = {
+  title: "AI Age Detector",
+  robots: { index: false },
+};
+
+export default async function EmbedPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const config = parseEmbedConfig(
+    await searchParams,
+    (await headers()).get("referer")
+  );
+
+  // Only partner sites get the detector; the middleware also stops other
+  // sites from framing this page
+  if (!config.parentOrigin) {
+    return (
+      <div className="flex items-center justify-center min-h-screen px-4 bg-slate-950">
+        <p className="text-slate-300">
+          This site is not allowed to embed the age detector.
+        </p>
+      </div>
+    );
+  }
+
+  return <EmbeddedDetector config={config} />;
+}
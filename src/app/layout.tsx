@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { SHARE_CONFIG } from "@/lib/config";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -13,6 +14,7 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
+  metadataBase: new URL(SHARE_CONFIG.SITE_URL),
   title: "AI Age Detector | Detect Age with Artificial Intelligence",
   description:
     "A web application to detect age from photos using AI and machine learning technology. Upload a photo and get an age prediction.",
@@ -33,7 +35,7 @@ export const metadata: Metadata = {
     title: "AI Age Detector",
     description: "Detect age from photos using AI",
     type: "website",
-    url: "https://age-detection.kdx.web.id",
+    url: SHARE_CONFIG.SITE_URL,
     siteName: "AI Age Detector",
   },
 };
@@ -0,0 +1,82 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { ShareCardData, parseCardData, toCardQuery } from "@/lib/shareCard";
+
+type SearchParams = Promise<Record<string, string | string[] | undefined>>;
+
+async function readCard(searchParams: SearchParams) {
+  const params = await searchParams;
+  return parseCardData((name) => params[name]);
+}
+
+function describe(data: ShareCardData) {
+  const range =
+    data.ageMin !== null && data.ageMax !== null
+      ? ` (${data.ageMin}–${data.ageMax})`
+      : "";
+  return `Estimated age ${data.age}${range}, detected with AI Age Detector`;
+}
+
+export async function generateMetadata({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}): Promise<Metadata> {
+  const data = await readCard(searchParams);
+  if (!data) return { title: "AI Age Detector" };
+
+  const image = {
+    url: `/api/card?${toCardQuery(data)}`,
+    width: 1200,
+    height: 630,
+    alt: `Estimated age ${data.age}`,
+  };
+  return {
+    title: `Estimated age ${data.age} | AI Age Detector`,
+    description: describe(data),
+    openGraph: {
+      title: `Estimated age ${data.age}`,
+      description: describe(data),
+      type: "website",
+      siteName: "AI Age Detector",
+      images: [image],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: `Estimated age ${data.age}`,
+      description: describe(data),
+      images: [image.url],
+    },
+  };
+}
+
+export default async function SharePage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  const data = await readCard(searchParams);
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen gap-8 px-4 bg-gradient-to-br from-slate-950 via-gray-900 to-slate-900">
+      {data ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={`/api/card?${toCardQuery(data)}`}
+          alt={describe(data)}
+          width={1200}
+          height={630}
+          className="w-full max-w-3xl h-auto rounded-xl border border-slate-700/50 shadow-xl"
+        />
+      ) : (
+        <p className="text-slate-300">This share link is no longer valid.</p>
+      )}
+      <Link
+        href="/"
+        className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors text-sm"
+      >
+        Estimate your own age
+      </Link>
+    </div>
+  );
+}
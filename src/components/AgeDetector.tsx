@@ -1,12 +1,18 @@
 "use client";
 
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useMemo } from "react";
 import Image from "next/image";
 import {
   AgeDetectionResult,
   LoadingState,
   FileValidationResult,
-  RawApiResponse,
+  BatchItem,
+  MetadataKind,
+  QualityReport,
+  PreprocessingStep,
+  DetectionSource,
+  AgeGateDecision,
+  DetectorEvent,
 } from "@/types";
 import LoadingSpinner from "./LoadingSpinner";
 import {
@@ -21,16 +27,145 @@ import {
   FiBarChart,
   FiCpu,
   FiArrowDown,
+  FiActivity,
+  FiColumns,
+  FiClock,
 } from "react-icons/fi";
 import TipsSection from "./TipsSection";
 import TechnicalDetails from "./TechnicalDetails";
 import ErrorDisplay from "./ErrorDisplay";
+import FaceBoxOverlay from "./FaceBoxOverlay";
+import FaceResults from "./FaceResults";
+import BatchQueue from "./BatchQueue";
+import BatchSummaryTable from "./BatchSummaryTable";
+import LiveSparkline from "./LiveSparkline";
+import RateLimitNotice from "./RateLimitNotice";
+import BackendStatusBanner from "./BackendStatusBanner";
+import MetadataNotice from "./MetadataNotice";
+import FaceCropStrip from "./FaceCropStrip";
+import QualityWarnings from "./QualityWarnings";
+import PreprocessingPanel from "./PreprocessingPanel";
+import BeforeAfterSlider from "./BeforeAfterSlider";
+import HistoryPanel from "./HistoryPanel";
+import ExportMenu from "./ExportMenu";
+import ShareButton from "./ShareButton";
+import AgeGateControls from "./AgeGateControls";
+import AgeGateResult from "./AgeGateResult";
+import { RateLimitError } from "@/lib/errors";
+import {
+  ClientOptions,
+  RequestProgress,
+  checkAgeGate,
+  detectAge as requestDetection,
+} from "@/lib/client";
+import { drawOrientedImage, readImageMetadata } from "@/lib/orientation";
+import { FaceCrop, cropFaces, mergeCropResults } from "@/lib/faceAlignment";
+import { LocatedFace, locateFaces } from "@/lib/faceDetection";
+import { assessImageQuality } from "@/lib/imageQuality";
+import {
+  BoxTransform,
+  DEFAULT_STEPS,
+  runPipeline,
+  transformBox,
+} from "@/lib/preprocessing";
+import { historyStore } from "@/lib/history";
+
+// Longest side of a face crop, before the resize step
+const FACE_CROP_MAX_SIZE = 512;
+
+// Longest side of the copy searched for faces, crops are cut from it
+const FACE_SEARCH_MAX_SIZE = 1600;
+
+// What the overlay says while a photo is being analysed
+const STAGE_LABELS: Record<RequestProgress["stage"], string> = {
+  uploading: "Uploading photo...",
+  processing: "Analyzing photo...",
+  received: "Photo received...",
+  validated: "Photo checked, sending it to the model...",
+  forwarded: "Waiting for the model...",
+  inference_started: "Estimating age...",
+  done: "Finishing up...",
+};
+
+// Face crops sent in place of the whole photo
+interface CroppedSubmission {
+  crops: FaceCrop[];
+  files: File[];
+  previews: string[];
+  // From face search coordinates to preview coordinates
+  transform: BoxTransform;
+}
+
+function canvasToFile(
+  canvas: HTMLCanvasElement,
+  name: string
+): Promise<File | null> {
+  return new Promise((resolve) => {
+    canvas.toBlob(
+      (blob) =>
+        resolve(
+          blob
+            ? new File([blob], name, {
+                type: "image/jpeg",
+                lastModified: Date.now(),
+              })
+            : null
+        ),
+      "image/jpeg",
+      0.92 // High quality JPEG compression
+    );
+  });
+}
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+interface PhotoAnalysis {
+  submission: CroppedSubmission | null;
+  quality: QualityReport | null;
+}
+
+// A photo held back by the quality check
+interface PendingSubmission {
+  file: File;
+  submission: CroppedSubmission | null;
+}
+
+// Longest side of the thumbnails kept in the history
+const HISTORY_THUMBNAIL_SIZE = 160;
+
+// Maximum number of batch uploads in flight at once
+const BATCH_CONCURRENCY = 3;
+
+// Live webcam estimation settings
+const LIVE_SAMPLE_INTERVAL_MS = 1000;
+const LIVE_SMOOTHING = 0.3; // Weight of the newest estimate in the running average
+const LIVE_HISTORY_SIZE = 30;
 
 interface AgeDetectorProps {
   className?: string;
+  // "compact" keeps just the upload, camera and result for embedding
+  layout?: "full" | "compact";
+  allowCamera?: boolean;
+  // Always run the age check against this threshold, without the toggle
+  ageGateThreshold?: number;
+  onEvent?: (event: DetectorEvent) => void;
 }
 
-export default function AgeDetector({ className = "" }: AgeDetectorProps) {
+export default function AgeDetector({
+  className = "",
+  layout = "full",
+  allowCamera = true,
+  ageGateThreshold,
+  onEvent,
+}: AgeDetectorProps) {
+  const isCompact = layout === "compact";
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [loadingState, setLoadingState] = useState<LoadingState>("idle");
   const [result, setResult] = useState<AgeDetectionResult | null>(null);
@@ -39,12 +174,61 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
   const [showCamera, setShowCamera] = useState(false);
   const [cameraError, setCameraError] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [imageSize, setImageSize] = useState({ width: 0, height: 0 });
+  const [activeFace, setActiveFace] = useState<number | null>(null);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [isLive, setIsLive] = useState(false);
+  const [liveHistory, setLiveHistory] = useState<number[]>([]);
+  const [liveError, setLiveError] = useState<string | null>(null);
+  const [batchPausedUntil, setBatchPausedUntil] = useState<number | null>(null);
+  const [rateLimitRetryAt, setRateLimitRetryAt] = useState<number | null>(null);
+  const [strippedMetadata, setStrippedMetadata] = useState<MetadataKind[]>([]);
+  const [sentCrops, setSentCrops] = useState<string[]>([]);
+  const [detectionStage, setDetectionStage] = useState<
+    RequestProgress["stage"] | null
+  >(null);
+  const [preprocessingSteps, setPreprocessingSteps] =
+    useState<PreprocessingStep[]>(DEFAULT_STEPS);
+  const [originalPreview, setOriginalPreview] = useState<string | null>(null);
+  const [showComparison, setShowComparison] = useState(false);
+  const [qualityReport, setQualityReport] = useState<QualityReport | null>(
+    null
+  );
+  const [pendingSubmission, setPendingSubmission] =
+    useState<PendingSubmission | null>(null);
+  const [gateThreshold, setGateThreshold] = useState<number | null>(
+    ageGateThreshold ?? null
+  );
+  const [gateDecision, setGateDecision] = useState<AgeGateDecision | null>(
+    null
+  );
   const fileInputRef = useRef<HTMLInputElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number | null>(null);
   const resizeObserverRef = useRef<ResizeObserver | null>(null);
+  const batchFilesRef = useRef<Map<string, File>>(new Map());
+  const batchQueueRef = useRef<string[]>([]);
+  const batchActiveRef = useRef(0);
+  const batchIdRef = useRef(0);
+  // Set after a 429, the queue starts nothing new until then
+  const batchPausedUntilRef = useRef(0);
+  const batchResumeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(
+    null
+  );
+  const liveIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const liveInFlightRef = useRef(false);
+  // Set after a 429, frames are skipped until then
+  const livePausedUntilRef = useRef(0);
+  const liveEstimateRef = useRef<number | null>(null);
+  const lastFileRef = useRef<File | null>(null);
+  const lastCropsRef = useRef<CroppedSubmission | null>(null);
+  const lastSourceRef = useRef<DetectionSource>("upload");
+  const lastStepsRef = useRef<PreprocessingStep[]>(DEFAULT_STEPS);
+  // Latest handler, so callbacks don't have to depend on the prop
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
 
   // Validate file
   const validateFile = useCallback((file: File): FileValidationResult => {
@@ -69,214 +253,251 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
   }, []);
 
   // Image preprocessing utilities
-  const preprocessImage = useCallback((file: File): Promise<File> => {
-    return new Promise((resolve) => {
-      const canvas = document.createElement("canvas");
-      const ctx = canvas.getContext("2d");
-      const img = document.createElement("img");
+  const preprocessImage = useCallback(
+    async (file: File): Promise<File> => {
+      const source = await drawOrientedImage(file, FACE_SEARCH_MAX_SIZE);
+      if (!source) return file;
 
-      img.onload = () => {
-        // Calculate optimal dimensions (target 512x512 for better quality)
-        const maxSize = 512;
-        let { width, height } = img;
+      const { canvas } = runPipeline(source, preprocessingSteps);
+      return (await canvasToFile(canvas, file.name)) ?? file;
+    },
+    [preprocessingSteps]
+  );
 
-        if (width > height) {
-          if (width > maxSize) {
-            height = (height * maxSize) / width;
-            width = maxSize;
-          }
-        } else {
-          if (height > maxSize) {
-            width = (width * maxSize) / height;
-            height = maxSize;
-          }
+  // Cut an eye-levelled crop for each face, null when there are none
+  const prepareFaceCrops = useCallback(
+    async (
+      source: HTMLCanvasElement,
+      faces: LocatedFace[],
+      previewTransform: BoxTransform
+    ): Promise<CroppedSubmission | null> => {
+      try {
+        const crops = cropFaces(source, faces, FACE_CROP_MAX_SIZE);
+        const files = await Promise.all(
+          crops.map((crop, index) =>
+            canvasToFile(
+              runPipeline(crop.canvas, preprocessingSteps).canvas,
+              `face_${index + 1}.jpg`
+            )
+          )
+        );
+        if (crops.length === 0 || files.some((cropFile) => !cropFile)) {
+          return null;
         }
 
-        canvas.width = width;
-        canvas.height = height;
-
-        if (ctx) {
-          // Enable image smoothing for better quality
-          ctx.imageSmoothingEnabled = true;
-          ctx.imageSmoothingQuality = "high";
-
-          // Draw the image
-          ctx.drawImage(img, 0, 0, width, height);
-
-          // Apply image enhancements
-          const imageData = ctx.getImageData(0, 0, width, height);
-          const data = imageData.data;
-
-          // Enhance contrast and brightness
-          const contrast = 1.1; // Slight contrast boost
-          const brightness = 5; // Slight brightness boost
-
-          for (let i = 0; i < data.length; i += 4) {
-            // Apply contrast and brightness to RGB channels
-            data[i] = Math.min(
-              255,
-              Math.max(0, (data[i] - 128) * contrast + 128 + brightness)
-            ); // Red
-            data[i + 1] = Math.min(
-              255,
-              Math.max(0, (data[i + 1] - 128) * contrast + 128 + brightness)
-            ); // Green
-            data[i + 2] = Math.min(
-              255,
-              Math.max(0, (data[i + 2] - 128) * contrast + 128 + brightness)
-            ); // Blue
-          }
+        const sentFiles = files as File[];
+        return {
+          crops,
+          files: sentFiles,
+          previews: await Promise.all(sentFiles.map(readAsDataUrl)),
+          transform: previewTransform,
+        };
+      } catch (err) {
+        console.warn("Face cropping failed, sending the whole photo:", err);
+        return null;
+      }
+    },
+    [preprocessingSteps]
+  );
 
-          ctx.putImageData(imageData, 0, 0);
-
-          // Convert to high-quality JPEG
-          canvas.toBlob(
-            (blob) => {
-              if (blob) {
-                const enhancedFile = new File([blob], file.name, {
-                  type: "image/jpeg",
-                  lastModified: Date.now(),
-                });
-                resolve(enhancedFile);
-              } else {
-                resolve(file);
-              }
-            },
-            "image/jpeg",
-            0.92 // High quality JPEG compression
-          );
-        } else {
-          resolve(file);
-        }
+  // Find the faces once, then use them for the quality check and, when the
+  // browser's own detector found them, for crops
+  const analyzePhoto = useCallback(
+    async (
+      source: HTMLCanvasElement,
+      previewTransform: BoxTransform
+    ): Promise<PhotoAnalysis> => {
+      const { faces, croppable } = await locateFaces(source);
+      return {
+        submission: croppable
+          ? await prepareFaceCrops(source, faces, previewTransform)
+          : null,
+        quality: assessImageQuality(
+          source,
+          faces.map((face) => face.bbox)
+        ),
       };
+    },
+    [prepareFaceCrops]
+  );
 
-      img.onerror = () => resolve(file);
-      img.src = URL.createObjectURL(file);
-    });
-  }, []);
+  // Follow the server's progress stream so the overlay shows the real stage
+  const streamOptions = useMemo<ClientOptions>(
+    () => ({
+      stream: true,
+      onProgress: (progress) => setDetectionStage(progress.stage),
+    }),
+    []
+  );
 
-  // Response transformer utility
-  const transformApiResponse = useCallback(
-    (rawResponse: RawApiResponse): AgeDetectionResult => {
-      // Extract age from different possible response formats
-      const detectedAge =
-        rawResponse.age ||
-        rawResponse.result?.age ||
-        rawResponse.predicted_age ||
-        25;
-      const detectedConfidence =
-        rawResponse.confidence || rawResponse.result?.confidence || 0.8;
-      const detectedRawPrediction =
-        rawResponse.raw_prediction ||
-        rawResponse.result?.raw_prediction ||
-        detectedAge;
-      const detectedGender = rawResponse.gender || rawResponse.result?.gender;
-      const detectedTimestamp =
-        rawResponse.timestamp ||
-        rawResponse.result?.timestamp ||
-        new Date().toISOString();
+  // Send every face crop and combine the answers into one result
+  const requestCroppedDetection = useCallback(
+    async (submission: CroppedSubmission): Promise<AgeDetectionResult> => {
+      const results: (AgeDetectionResult | null)[] = [];
+      let firstError: unknown = null;
+
+      for (const cropFile of submission.files) {
+        try {
+          results.push(await requestDetection(cropFile, streamOptions));
+        } catch (err) {
+          if (err instanceof RateLimitError) throw err;
+          firstError = firstError ?? err;
+          results.push(null);
+        }
+      }
 
-      return {
-        success: true,
-        result: {
-          age: detectedAge,
-          age_range: `${detectedAge - 3}-${detectedAge + 3}`,
-          age_min: detectedAge - 3,
-          age_max: detectedAge + 3,
-          confidence: detectedConfidence,
-          raw_prediction: detectedRawPrediction,
-          gender: detectedGender,
-          message:
-            rawResponse.message ||
-            rawResponse.result?.message ||
-            "Age detection completed successfully",
-          method: "AI Neural Network",
-          model_info: {
-            input_size: "224x224",
-            scaling_factor: rawResponse.result?.model_info?.scaling_factor || 1,
-            range_margin: 3,
-          },
-          timestamp: detectedTimestamp,
-          face_detected: true,
-          faces_count: rawResponse.result?.faces_count || 1,
-        },
-      };
+      const merged = mergeCropResults(submission.crops, results, (bbox) =>
+        transformBox(submission.transform, bbox)
+      );
+      if (!merged) throw firstError ?? new Error("Failed to detect age");
+
+      // Keep the thumbnails in the same order as the merged faces
+      setSentCrops(
+        submission.previews.filter((_, index) => results[index]?.result)
+      );
+      return merged;
+    },
+    [streamOptions]
+  );
+
+  // Keep successful detections in the local history, failures are not fatal
+  const recordHistory = useCallback(
+    async (file: File, detection: AgeDetectionResult) => {
+      try {
+        const thumbnail = await drawOrientedImage(file, HISTORY_THUMBNAIL_SIZE);
+        await historyStore.add({
+          id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+          createdAt: new Date().toISOString(),
+          fileName: file.name,
+          source: lastSourceRef.current,
+          thumbnail: thumbnail?.toDataURL("image/jpeg", 0.8) ?? "",
+          image: file,
+          result: detection,
+          preprocessing: lastStepsRef.current,
+        });
+      } catch (err) {
+        console.warn("Could not save detection to history:", err);
+      }
     },
     []
   );
 
   // Detect age function
   const detectAge = useCallback(
-    async (file: File): Promise<void> => {
+    async (file: File, submission?: CroppedSubmission): Promise<void> => {
       setLoadingState("loading");
+      setDetectionStage(null);
       setError(null);
+      setRateLimitRetryAt(null);
+      setSentCrops([]);
+      lastFileRef.current = file;
+      lastCropsRef.current = submission ?? null;
 
       try {
-        const formData = new FormData();
-        formData.append("image", file);
-
-        // Use Next.js API route instead of direct Python API call
-        const response = await fetch("/api/detect-age", {
-          method: "POST",
-          body: formData,
-        });
-
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-
-        const rawData: RawApiResponse = await response.json();
-
-        if (rawData.success !== false) {
-          const transformedResult = transformApiResponse(rawData);
-          setResult(transformedResult);
+        if (gateThreshold !== null) {
+          const decision = await checkAgeGate(file, gateThreshold);
+          setGateDecision(decision);
           setLoadingState("success");
-        } else {
-          throw new Error(rawData.error || "Failed to detect age");
+          onEventRef.current?.({ type: "result", result: null, decision });
+          return;
         }
+
+        const transformedResult = submission
+          ? await requestCroppedDetection(submission)
+          : await requestDetection(file, streamOptions);
+        setResult(transformedResult);
+        setLoadingState("success");
+        onEventRef.current?.({
+          type: "result",
+          result: transformedResult,
+          decision: null,
+        });
+        // Embedded detectors leave nothing behind on the host's visitors
+        if (!isCompact) recordHistory(file, transformedResult);
       } catch (err) {
         console.error("Error detecting age:", err);
-        setError(
+        const message =
           err instanceof Error
             ? err.message
-            : "An error occurred while detecting age"
-        );
+            : "An error occurred while detecting age";
+        onEventRef.current?.({ type: "error", error: message });
+        if (err instanceof RateLimitError) {
+          setRateLimitRetryAt(Date.now() + err.retryAfterSeconds * 1000);
+          setLoadingState("error");
+          return;
+        }
+        setError(message);
         setLoadingState("error");
       }
     },
-    [transformApiResponse]
+    [
+      gateThreshold,
+      isCompact,
+      requestCroppedDetection,
+      recordHistory,
+      streamOptions,
+    ]
   );
 
   // Handle file selection
   const handleFileSelect = useCallback(
-    async (file: File) => {
+    async (file: File, source: DetectionSource = "upload") => {
       if (!file) return;
 
       // Validate file
       const validation = validateFile(file);
       if (!validation.valid) {
         setError(validation.error);
+        onEventRef.current?.({ type: "error", error: validation.error });
         return;
       }
 
       // Clear previous results
       setError(null);
       setResult(null);
+      setGateDecision(null);
+      setActiveFace(null);
+      setStrippedMetadata([]);
+      setQualityReport(null);
+      setPendingSubmission(null);
+      setOriginalPreview(null);
+      setShowComparison(false);
       setIsProcessing(true);
+      lastSourceRef.current = source;
+      lastStepsRef.current = preprocessingSteps;
+
+      // Re-encoding drops everything embedded in the original, note what it had
+      readImageMetadata(file).then(({ kinds }) => setStrippedMetadata(kinds));
 
       try {
+        // Upright copy shared by the preview, face search and quality check
+        const source = await drawOrientedImage(file, FACE_SEARCH_MAX_SIZE);
+        if (!source) throw new Error("Could not decode the image");
+
         // Preprocess image for better quality
-        const enhancedFile = await preprocessImage(file);
+        const processed = runPipeline(source, preprocessingSteps);
+        const enhancedFile =
+          (await canvasToFile(processed.canvas, file.name)) ?? file;
+
+        // Create preview, with the original kept for comparison
+        setOriginalPreview(source.toDataURL("image/jpeg", 0.85));
+        setSelectedImage(await readAsDataUrl(enhancedFile));
+
+        // Faces in wide shots are sent as their own crops
+        const { submission, quality } = await analyzePhoto(
+          source,
+          processed.transform
+        );
+        setQualityReport(quality);
 
-        // Create preview
-        const reader = new FileReader();
-        reader.onload = (e: ProgressEvent<FileReader>): void => {
-          setSelectedImage(e.target?.result as string);
-        };
-        reader.readAsDataURL(enhancedFile);
+        // Hold the upload until the user decides whether to send it anyway
+        if (quality && quality.issues.length > 0) {
+          setPendingSubmission({ file: enhancedFile, submission });
+          return;
+        }
 
         // Detect age with enhanced image
-        await detectAge(enhancedFile);
+        await detectAge(enhancedFile, submission ?? undefined);
       } catch (error) {
         console.error("Error processing image:", error);
         // Fallback to original file if preprocessing fails
@@ -290,7 +511,148 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
         setIsProcessing(false);
       }
     },
-    [validateFile, detectAge, preprocessImage]
+    [validateFile, detectAge, preprocessingSteps, analyzePhoto]
+  );
+
+  // Batch helpers
+  const updateBatchItem = useCallback(
+    (id: string, changes: Partial<BatchItem>) => {
+      setBatchItems((items) =>
+        items.map((item) => (item.id === id ? { ...item, ...changes } : item))
+      );
+    },
+    []
+  );
+
+  const processBatchItem = useCallback(
+    async (id: string) => {
+      const file = batchFilesRef.current.get(id);
+      if (!file) return;
+
+      const validation = validateFile(file);
+      if (!validation.valid) {
+        updateBatchItem(id, { status: "failed", error: validation.error });
+        return;
+      }
+
+      updateBatchItem(id, { status: "running", error: undefined });
+
+      try {
+        const enhancedFile = await preprocessImage(file);
+        const batchResult = await requestDetection(enhancedFile);
+        updateBatchItem(id, { status: "done", result: batchResult });
+      } catch (err) {
+        // Wait out the limit and put the item back at the front of the queue
+        if (err instanceof RateLimitError) {
+          const pausedUntil = Date.now() + err.retryAfterSeconds * 1000;
+          batchPausedUntilRef.current = Math.max(
+            batchPausedUntilRef.current,
+            pausedUntil
+          );
+          batchQueueRef.current.unshift(id);
+          updateBatchItem(id, { status: "queued" });
+          return;
+        }
+        console.error("Error detecting age in batch:", err);
+        updateBatchItem(id, {
+          status: "failed",
+          error:
+            err instanceof Error
+              ? err.message
+              : "An error occurred while detecting age",
+        });
+      }
+    },
+    [validateFile, preprocessImage, updateBatchItem]
+  );
+
+  // Start queued items until the concurrency limit is reached
+  const pumpBatchQueue = useCallback(() => {
+    const pausedFor = batchPausedUntilRef.current - Date.now();
+    if (pausedFor > 0) {
+      setBatchPausedUntil(batchPausedUntilRef.current);
+      if (!batchResumeTimerRef.current) {
+        batchResumeTimerRef.current = setTimeout(() => {
+          batchResumeTimerRef.current = null;
+          setBatchPausedUntil(null);
+          pumpBatchQueue();
+        }, pausedFor);
+      }
+      return;
+    }
+
+    while (
+      batchActiveRef.current < BATCH_CONCURRENCY &&
+      batchQueueRef.current.length > 0
+    ) {
+      const id = batchQueueRef.current.shift() as string;
+      batchActiveRef.current++;
+      processBatchItem(id).finally(() => {
+        batchActiveRef.current--;
+        pumpBatchQueue();
+      });
+    }
+  }, [processBatchItem]);
+
+  const startBatch = useCallback(
+    (files: File[]) => {
+      setError(null);
+      setResult(null);
+      setSelectedImage(null);
+
+      const newItems: BatchItem[] = files.map((file) => {
+        const id = `batch-${++batchIdRef.current}`;
+        batchFilesRef.current.set(id, file);
+        batchQueueRef.current.push(id);
+        return { id, fileName: file.name, status: "queued", attempts: 1 };
+      });
+
+      setBatchItems((items) => [...items, ...newItems]);
+      pumpBatchQueue();
+    },
+    [pumpBatchQueue]
+  );
+
+  const retryBatchItems = useCallback(
+    (ids: string[]) => {
+      if (ids.length === 0) return;
+
+      setBatchItems((items) =>
+        items.map((item) =>
+          ids.includes(item.id)
+            ? {
+                ...item,
+                status: "queued",
+                attempts: item.attempts + 1,
+                error: undefined,
+              }
+            : item
+        )
+      );
+      batchQueueRef.current.push(...ids);
+      pumpBatchQueue();
+    },
+    [pumpBatchQueue]
+  );
+
+  const handleFiles = (files: FileList) => {
+    if (files.length > 1 && !isCompact) {
+      startBatch(Array.from(files));
+    } else if (files.length > 0) {
+      handleFileSelect(files[0]);
+    }
+  };
+
+  const isBatchMode = batchItems.length > 0;
+  const isBatchFinished =
+    isBatchMode &&
+    batchItems.every(
+      (item) => item.status === "done" || item.status === "failed"
+    );
+
+  // Whatever the browser dropped while re-encoding plus what the server stripped
+  const removedMetadata = Array.from(
+    new Set([...strippedMetadata, ...(result?.metadata_removed ?? [])])
   );
 
   // Drag and drop handlers
@@ -323,17 +685,13 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
     e.stopPropagation();
     setIsDragging(false);
 
-    const files = e.dataTransfer.files;
-    if (files.length > 0) {
-      handleFileSelect(files[0]);
-    }
+    handleFiles(e.dataTransfer.files);
   };
 
   // Input change handler
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (files && files.length > 0) {
-      handleFileSelect(files[0]);
+    if (e.target.files) {
+      handleFiles(e.target.files);
     }
   };
 
@@ -400,8 +758,21 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
     }
   };
 
+  // Stop live estimation
+  const stopLive = useCallback(() => {
+    if (liveIntervalRef.current) {
+      clearInterval(liveIntervalRef.current);
+      liveIntervalRef.current = null;
+    }
+    liveEstimateRef.current = null;
+    setIsLive(false);
+    setLiveHistory([]);
+    setLiveError(null);
+  }, []);
+
   // Stop camera
-  const stopCamera = () => {
+  const stopCamera = useCallback(() => {
+    stopLive();
     setShowCamera(false);
     if (streamRef.current) {
       streamRef.current.getTracks().forEach((track) => track.stop());
@@ -415,7 +786,7 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
       resizeObserverRef.current.disconnect();
       resizeObserverRef.current = null;
     }
-  };
+  }, [stopLive]);
 
   // Draw clean white face outline on canvas
   const drawFaceOutline = useCallback(() => {
@@ -498,6 +869,31 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
     ctx.closePath();
     ctx.stroke();
 
+    // Running live estimate, drawn un-mirrored since the canvas is flipped by CSS
+    if (liveEstimateRef.current !== null) {
+      const label = `~${Math.round(liveEstimateRef.current)} years`;
+      const fontSize = Math.max(14, canvas.width * 0.05);
+
+      ctx.save();
+      ctx.translate(canvas.width, 0);
+      ctx.scale(-1, 1);
+      ctx.font = `bold ${fontSize}px sans-serif`;
+      const labelWidth = ctx.measureText(label).width + fontSize;
+      const labelX = (canvas.width - labelWidth) / 2;
+      const labelY = canvas.height - fontSize * 2.2;
+
+      ctx.fillStyle = "rgba(6, 78, 59, 0.75)";
+      ctx.beginPath();
+      ctx.roundRect(labelX, labelY, labelWidth, fontSize * 1.6, fontSize * 0.8);
+      ctx.fill();
+
+      ctx.fillStyle = "#6ee7b7";
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.fillText(label, canvas.width / 2, labelY + fontSize * 0.8);
+      ctx.restore();
+    }
+
     // Continue drawing on next frame
     animationRef.current = requestAnimationFrame(drawFaceOutline);
   }, []);
@@ -524,126 +920,146 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
     }
   }, [drawFaceOutline]);
 
-  // Enhanced capture photo function with preprocessing
-  const capturePhoto = useCallback(() => {
-    if (!videoRef.current) return;
+  // Draw the current video frame to a new square, mirrored canvas
+  const drawVideoFrame = useCallback(
+    (maxSize: number, square = true): HTMLCanvasElement | null => {
+      if (!videoRef.current) return null;
 
-    const video = videoRef.current;
-    const canvas = document.createElement("canvas");
-    const ctx = canvas.getContext("2d");
+      const video = videoRef.current;
+      const canvas = document.createElement("canvas");
+      const ctx = canvas.getContext("2d");
 
-    if (!ctx) return;
+      if (!ctx) return null;
+
+      // Use actual video dimensions but ensure square output
+      const videoWidth = video.videoWidth || video.clientWidth;
+      const videoHeight = video.videoHeight || video.clientHeight;
+
+      // Calculate square dimensions (use the smaller dimension for perfect square)
+      const squareSize = Math.min(videoWidth, videoHeight);
+      const sourceWidth = square ? squareSize : videoWidth;
+      const sourceHeight = square ? squareSize : videoHeight;
+      const scale = Math.min(1, maxSize / Math.max(sourceWidth, sourceHeight));
+      const targetWidth = Math.round(sourceWidth * scale);
+      const targetHeight = Math.round(sourceHeight * scale);
+
+      canvas.width = targetWidth;
+      canvas.height = targetHeight;
+
+      // Enable high-quality rendering
+      ctx.imageSmoothingEnabled = true;
+      ctx.imageSmoothingQuality = "high";
+
+      // Calculate crop coordinates to center the crop
+      const cropX = (videoWidth - sourceWidth) / 2;
+      const cropY = (videoHeight - sourceHeight) / 2;
+
+      // Draw the video frame (flip horizontally for natural selfie view)
+      ctx.save();
+      ctx.scale(-1, 1);
+      ctx.drawImage(
+        video,
+        cropX,
+        cropY,
+        sourceWidth,
+        sourceHeight, // Source crop (centered)
+        -targetWidth,
+        0,
+        targetWidth,
+        targetHeight // Destination (flipped)
+      );
+      ctx.restore();
 
-    // Use actual video dimensions but ensure square output
-    const videoWidth = video.videoWidth || video.clientWidth;
-    const videoHeight = video.videoHeight || video.clientHeight;
+      return canvas;
+    },
+    []
+  );
 
-    // Calculate square dimensions (use the smaller dimension for perfect square)
-    const squareSize = Math.min(videoWidth, videoHeight);
-    const maxSize = 1024; // Maximum resolution
-    let targetSize = squareSize;
+  // Sample one frame for live estimation, skipped while a request is in flight
+  const sampleLiveFrame = useCallback(() => {
+    if (liveInFlightRef.current) return;
+    if (Date.now() < livePausedUntilRef.current) return;
 
-    // Scale down if too large while maintaining square aspect ratio
-    if (squareSize > maxSize) {
-      targetSize = maxSize;
-    }
+    const canvas = drawVideoFrame(512);
+    if (!canvas) return;
 
-    canvas.width = targetSize;
-    canvas.height = targetSize;
-
-    // Enable high-quality rendering
-    ctx.imageSmoothingEnabled = true;
-    ctx.imageSmoothingQuality = "high";
-
-    // Calculate crop coordinates to center the square crop
-    const cropX = (videoWidth - squareSize) / 2;
-    const cropY = (videoHeight - squareSize) / 2;
-
-    // Draw the video frame as a square (flip horizontally for natural selfie view)
-    ctx.save();
-    ctx.scale(-1, 1);
-    ctx.drawImage(
-      video,
-      cropX,
-      cropY,
-      squareSize,
-      squareSize, // Source crop (square from center)
-      -targetSize,
-      0,
-      targetSize,
-      targetSize // Destination (flipped square)
+    liveInFlightRef.current = true;
+    canvas.toBlob(
+      async (blob) => {
+        try {
+          if (!blob) return;
+          const frame = new File([blob], "live_frame.jpg", {
+            type: "image/jpeg",
+            lastModified: Date.now(),
+          });
+          const enhancedFrame = await preprocessImage(frame);
+          const liveResult = await requestDetection(enhancedFrame);
+          const age = liveResult.result?.age;
+
+          // Ignore results that arrive after live mode was turned off
+          if (age === undefined || !liveIntervalRef.current) return;
+
+          const previous = liveEstimateRef.current;
+          const smoothed =
+            previous === null
+              ? age
+              : previous + LIVE_SMOOTHING * (age - previous);
+          liveEstimateRef.current = smoothed;
+          setLiveHistory((history) =>
+            [...history, smoothed].slice(-LIVE_HISTORY_SIZE)
+          );
+          setLiveError(null);
+        } catch (err) {
+          if (err instanceof RateLimitError) {
+            livePausedUntilRef.current =
+              Date.now() + err.retryAfterSeconds * 1000;
+            setLiveError(
+              `Too many requests, pausing for ${err.retryAfterSeconds} seconds`
+            );
+            return;
+          }
+          setLiveError(
+            err instanceof Error ? err.message : "Live estimation failed"
+          );
+        } finally {
+          liveInFlightRef.current = false;
+        }
+      },
+      "image/jpeg",
+      0.9
     );
-    ctx.restore();
-
-    // Apply image enhancements
-    const imageData = ctx.getImageData(0, 0, targetSize, targetSize);
-    const data = imageData.data;
-
-    // Auto-adjust brightness and contrast based on image statistics
-    let totalBrightness = 0;
-    let pixelCount = 0;
+  }, [drawVideoFrame, preprocessImage]);
 
-    // Calculate average brightness
-    for (let i = 0; i < data.length; i += 4) {
-      const brightness = (data[i] + data[i + 1] + data[i + 2]) / 3;
-      totalBrightness += brightness;
-      pixelCount++;
+  // Toggle live estimation
+  const toggleLive = () => {
+    if (isLive) {
+      stopLive();
+      return;
     }
 
-    const avgBrightness = totalBrightness / pixelCount;
-
-    // Dynamic adjustment based on lighting conditions
-    let brightnessAdjust = 0;
-    let contrastAdjust = 1.0;
-
-    if (avgBrightness < 100) {
-      // Dark image - boost brightness and contrast
-      brightnessAdjust = 20;
-      contrastAdjust = 1.2;
-    } else if (avgBrightness > 180) {
-      // Bright image - reduce brightness slightly
-      brightnessAdjust = -10;
-      contrastAdjust = 1.1;
-    } else {
-      // Normal lighting - mild enhancement
-      brightnessAdjust = 5;
-      contrastAdjust = 1.05;
-    }
-
-    // Apply enhancements
-    for (let i = 0; i < data.length; i += 4) {
-      // Apply contrast and brightness
-      data[i] = Math.min(
-        255,
-        Math.max(0, (data[i] - 128) * contrastAdjust + 128 + brightnessAdjust)
-      );
-      data[i + 1] = Math.min(
-        255,
-        Math.max(
-          0,
-          (data[i + 1] - 128) * contrastAdjust + 128 + brightnessAdjust
-        )
-      );
-      data[i + 2] = Math.min(
-        255,
-        Math.max(
-          0,
-          (data[i + 2] - 128) * contrastAdjust + 128 + brightnessAdjust
-        )
-      );
-    }
+    setIsLive(true);
+    setLiveError(null);
+    liveIntervalRef.current = setInterval(
+      sampleLiveFrame,
+      LIVE_SAMPLE_INTERVAL_MS
+    );
+  };
 
-    ctx.putImageData(imageData, 0, 0);
+  // Capture the frame as is, lighting is handled by the preprocessing steps
+  const capturePhoto = useCallback(() => {
+    // Whole frame, the face crop decides what the model sees
+    const canvas = drawVideoFrame(FACE_SEARCH_MAX_SIZE, false);
+    if (!canvas) return;
 
     // Convert to high-quality file
     canvas.toBlob(
       (blob) => {
         if (blob) {
-          const file = new File([blob], "enhanced_capture.jpg", {
+          const file = new File([blob], "capture.jpg", {
             type: "image/jpeg",
             lastModified: Date.now(),
           });
-          handleFileSelect(file);
+          handleFileSelect(file, "camera");
         }
       },
       "image/jpeg",
@@ -651,15 +1067,36 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
     );
 
     stopCamera();
-  }, [handleFileSelect]);
+  }, [drawVideoFrame, handleFileSelect, stopCamera]);
 
   // Reset function
   const resetDetector = () => {
+    onEventRef.current?.({ type: "cancel" });
     setSelectedImage(null);
+    setOriginalPreview(null);
+    setShowComparison(false);
     setResult(null);
+    setGateDecision(null);
     setError(null);
     setLoadingState("idle");
     setIsProcessing(false);
+    setImageSize({ width: 0, height: 0 });
+    setActiveFace(null);
+    setRateLimitRetryAt(null);
+    setStrippedMetadata([]);
+    lastFileRef.current = null;
+    lastCropsRef.current = null;
+    setSentCrops([]);
+    setQualityReport(null);
+    setPendingSubmission(null);
+    setBatchItems([]);
+    batchFilesRef.current.clear();
+    batchQueueRef.current = [];
+    if (batchResumeTimerRef.current) {
+      clearTimeout(batchResumeTimerRef.current);
+      batchResumeTimerRef.current = null;
+    }
+    setBatchPausedUntil(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
@@ -668,24 +1105,43 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
   return (
     <div className={`max-w-4xl mx-auto p-4 sm:p-6 ${className}`}>
       {/* Responsive Header */}
-      <header className="relative flex flex-col items-center justify-center min-h-[180px] sm:min-h-[220px] mb-8 sm:mb-12 px-2 sm:px-0">
-        <div className="relative inline-block">
-          <h1 className="relative text-3xl sm:text-4xl lg:text-5xl font-extrabold text-white mb-3 sm:mb-4 tracking-tight text-center leading-tight">
-            <span className="bg-gradient-to-r from-white via-slate-200 to-slate-400 bg-clip-text text-transparent drop-shadow-lg">
-              AI Age Detector
-            </span>
-          </h1>
-          <div className="absolute inset-0 bg-gradient-to-r from-slate-700/40 via-slate-600/30 to-slate-700/40 rounded-2xl blur-lg opacity-40 -z-10 scale-110"></div>
-        </div>
-        <p className="text-base sm:text-lg text-slate-300 max-w-2xl mx-auto leading-relaxed text-center mt-2 sm:mt-3 px-2">
-          Upload a photo and let the{" "}
-          <span className="font-semibold text-slate-200">AI model</span> analyze
-          and estimate the age.
-        </p>
-      </header>
+      {!isCompact && (
+        <header className="relative flex flex-col items-center justify-center min-h-[180px] sm:min-h-[220px] mb-8 sm:mb-12 px-2 sm:px-0">
+          <div className="relative inline-block">
+            <h1 className="relative text-3xl sm:text-4xl lg:text-5xl font-extrabold text-white mb-3 sm:mb-4 tracking-tight text-center leading-tight">
+              <span className="bg-gradient-to-r from-white via-slate-200 to-slate-400 bg-clip-text text-transparent drop-shadow-lg">
+                AI Age Detector
+              </span>
+            </h1>
+            <div className="absolute inset-0 bg-gradient-to-r from-slate-700/40 via-slate-600/30 to-slate-700/40 rounded-2xl blur-lg opacity-40 -z-10 scale-110"></div>
+          </div>
+          <p className="text-base sm:text-lg text-slate-300 max-w-2xl mx-auto leading-relaxed text-center mt-2 sm:mt-3 px-2">
+            Upload a photo and let the{" "}
+            <span className="font-semibold text-slate-200">AI model</span>{" "}
+            analyze and estimate the age.
+          </p>
+        </header>
+      )}
+
+      <BackendStatusBanner />
+
+      {!isCompact && (
+        <PreprocessingPanel
+          steps={preprocessingSteps}
+          onChange={setPreprocessingSteps}
+        />
+      )}
+
+      {!isCompact && ageGateThreshold === undefined && (
+        <AgeGateControls
+          threshold={gateThreshold}
+          onChange={setGateThreshold}
+          disabled={loadingState === "loading"}
+        />
+      )}
 
       {/* Upload Area & Camera */}
-      {!selectedImage && !showCamera && (
+      {!selectedImage && !showCamera && !isBatchMode && (
         <div className="slide-in-right">
           <div
             className={`
@@ -712,6 +1168,7 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
               ref={fileInputRef}
               type="file"
               accept="image/*"
+              multiple={!isCompact}
               onChange={handleInputChange}
               className="hidden"
               disabled={loadingState === "loading"}
@@ -736,24 +1193,28 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
                 </h3>
                 <p className="text-slate-300 text-sm sm:text-base mb-4">
                   <span className="block sm:inline">
-                    Drag and drop an image, click to select a file, or
+                    {allowCamera
+                      ? "Drag and drop images, click to select files, or"
+                      : "Drag and drop an image or click to select a file"}
                   </span>
                   <br className="hidden sm:block" />
                 </p>
-                <div className="flex justify-center">
-                  <button
-                    type="button"
-                    className="mt-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors text-sm cursor-pointer flex items-center gap-2"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      startCamera();
-                    }}
-                    disabled={loadingState === "loading"}
-                  >
-                    <FiCamera className="text-base" />
-                    Use Camera
-                  </button>
-                </div>
+                {allowCamera && (
+                  <div className="flex justify-center">
+                    <button
+                      type="button"
+                      className="mt-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors text-sm cursor-pointer flex items-center gap-2"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        startCamera();
+                      }}
+                      disabled={loadingState === "loading"}
+                    >
+                      <FiCamera className="text-base" />
+                      Use Camera
+                    </button>
+                  </div>
+                )}
                 <div className="flex flex-wrap justify-center gap-2 text-xs sm:text-sm mt-4">
                   <span className="bg-slate-800 text-slate-300 px-3 py-1 rounded border border-slate-700">
                     JPG
@@ -801,7 +1262,7 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
                 <div className="flex items-center gap-1">
                   <div className="w-2 h-2 bg-emerald-400 rounded-full animate-pulse"></div>
                   <span className="text-xs text-emerald-300 font-medium">
-                    Face Mapping
+                    {isLive ? "Live Estimation" : "Face Mapping"}
                   </span>
                 </div>
               </div>
@@ -811,6 +1272,19 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
                 {cameraError}
               </div>
             )}
+            {isLive && (
+              <div className="mt-4 flex flex-col items-center gap-2">
+                {liveHistory.length < 2 && !liveError && (
+                  <span className="text-xs text-slate-400">
+                    Collecting estimates...
+                  </span>
+                )}
+                <LiveSparkline values={liveHistory} />
+                {liveError && (
+                  <span className="text-xs text-red-400">{liveError}</span>
+                )}
+              </div>
+            )}
             <div className="flex gap-4 justify-center mt-6">
               <button
                 onClick={capturePhoto}
@@ -819,7 +1293,20 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
                 <FiCamera /> Capture
               </button>
               <button
-                onClick={stopCamera}
+                onClick={toggleLive}
+                className={`px-4 py-2 text-white rounded-lg transition-colors text-sm flex items-center gap-2 cursor-pointer ${
+                  isLive
+                    ? "bg-emerald-800 hover:bg-emerald-700 ring-2 ring-emerald-400/60"
+                    : "bg-slate-700 hover:bg-slate-600"
+                }`}
+              >
+                <FiActivity /> {isLive ? "Stop Live" : "Live"}
+              </button>
+              <button
+                onClick={() => {
+                  stopCamera();
+                  onEventRef.current?.({ type: "cancel" });
+                }}
                 className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors text-sm flex items-center gap-2 cursor-pointer"
               >
                 <FiX /> Cancel
@@ -829,6 +1316,38 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
         </div>
       )}
 
+      {/* Batch Queue and Summary */}
+      {isBatchMode && (
+        <div className="space-y-6 scale-in">
+          <BatchQueue
+            items={batchItems}
+            onRetry={(id) => retryBatchItems([id])}
+            onRetryFailed={() =>
+              retryBatchItems(
+                batchItems
+                  .filter((item) => item.status === "failed")
+                  .map((item) => item.id)
+              )
+            }
+          />
+          {batchPausedUntil !== null && (
+            <p className="flex items-center justify-center gap-2 text-sm text-amber-300">
+              <FiClock /> Too many requests, the queue resumes at{" "}
+              {new Date(batchPausedUntil).toLocaleTimeString()}
+            </p>
+          )}
+          {isBatchFinished && <BatchSummaryTable items={batchItems} />}
+          <div className="flex justify-center">
+            <button
+              onClick={resetDetector}
+              className="px-5 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors text-base font-medium shadow-md cursor-pointer flex items-center gap-2"
+            >
+              <FiRefreshCw /> Reset
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Preview and Results */}
       {selectedImage && (
         <div className="space-y-6 scale-in">
@@ -837,13 +1356,37 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
             <div className="flex flex-col lg:flex-row gap-6">
               <div className="flex-1 flex justify-center">
                 <div className="relative max-w-md w-full">
-                  <Image
-                    src={selectedImage}
-                    alt="Preview"
-                    width={400}
-                    height={400}
-                    className="w-full h-auto max-h-96 object-cover rounded-lg shadow-lg"
-                  />
+                  {showComparison && originalPreview ? (
+                    <BeforeAfterSlider
+                      before={originalPreview}
+                      after={selectedImage}
+                    />
+                  ) : (
+                    <Image
+                      src={selectedImage}
+                      alt="Preview"
+                      width={400}
+                      height={400}
+                      className="w-full h-auto max-h-96 object-cover rounded-lg shadow-lg"
+                      onLoad={(e) =>
+                        setImageSize({
+                          width: e.currentTarget.naturalWidth,
+                          height: e.currentTarget.naturalHeight,
+                        })
+                      }
+                    />
+                  )}
+                  {result?.result &&
+                    loadingState === "success" &&
+                    !showComparison && (
+                      <FaceBoxOverlay
+                        faces={result.result.faces}
+                        imageWidth={imageSize.width}
+                        imageHeight={imageSize.height}
+                        activeFace={activeFace}
+                        onSelectFace={setActiveFace}
+                      />
+                    )}
                   {(loadingState === "loading" || isProcessing) && (
                     <div className="absolute inset-0 bg-slate-900/70 backdrop-blur-sm rounded-lg flex items-center justify-center shadow-lg">
                       <div className="text-center">
@@ -851,7 +1394,7 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
                         <p className="mt-4 text-slate-300 text-sm font-medium">
                           {isProcessing
                             ? "Enhancing image quality..."
-                            : "Analyzing photo..."}
+                            : STAGE_LABELS[detectionStage ?? "processing"]}
                         </p>
                       </div>
                     </div>
@@ -859,8 +1402,23 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
                 </div>
               </div>
             </div>
+            <FaceCropStrip
+              crops={sentCrops}
+              activeFace={activeFace}
+              onSelectFace={setActiveFace}
+            />
+            <MetadataNotice kinds={removedMetadata} />
             {/* Reset Button Below Image */}
-            <div className="flex justify-center mt-6">
+            <div className="flex justify-center gap-3 mt-6">
+              {originalPreview && (
+                <button
+                  onClick={() => setShowComparison((shown) => !shown)}
+                  className="px-5 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg transition-colors text-base font-medium shadow-md cursor-pointer flex items-center gap-2"
+                >
+                  <FiColumns />
+                  {showComparison ? "Hide comparison" : "Compare before/after"}
+                </button>
+              )}
               <button
                 onClick={resetDetector}
                 className="px-5 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors text-base font-medium shadow-md cursor-pointer flex items-center gap-2"
@@ -869,6 +1427,10 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
               </button>
             </div>
           </div>
+          {gateDecision && loadingState === "success" && (
+            <AgeGateResult decision={gateDecision} />
+          )}
+
           {/* Results */}
           {result && result.result && (
             <div className="bg-slate-900/60 backdrop-blur-sm rounded-xl p-4 sm:p-6 border border-slate-700/50 shadow-xl slide-in-left">
@@ -887,11 +1449,11 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
                   <div className="text-sm">
                     <p className="font-medium text-green-200 mb-1 flex items-center gap-2">
                       <FiCheckCircle className="text-green-300" />{" "}
-                      {result.result.method}
+                      {result.result.method ?? "Unknown method"}
                     </p>
                     <p className="text-green-300">
-                      Input: {result.result.model_info?.input_size} • Faces
-                      detected: {result.result.faces_count}
+                      Input: {result.result.model_info.input_size ?? "unknown"}{" "}
+                      • Faces detected: {result.result.faces_count ?? "unknown"}
                     </p>
                   </div>
                 </div>
@@ -945,12 +1507,15 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
                           </div>
                           <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-3">
                             <div className="text-xl sm:text-2xl font-bold text-slate-200">
-                              {result.result.age_range}
-                            </div>
-                            <div className="text-xs sm:text-sm text-slate-400">
-                              ({result.result.age_min} - {result.result.age_max}{" "}
-                              years)
+                              {result.result.age_range ?? "Unknown"}
                             </div>
+                            {result.result.age_min !== null &&
+                              result.result.age_max !== null && (
+                                <div className="text-xs sm:text-sm text-slate-400">
+                                  ({result.result.age_min} -{" "}
+                                  {result.result.age_max} years)
+                                </div>
+                              )}
                           </div>
                           <div className="mt-3 flex items-center gap-2">
                             <div className="flex-1 bg-slate-700 rounded-full h-2 overflow-hidden">
@@ -960,7 +1525,9 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
                               ></div>
                             </div>
                             <span className="text-xs text-slate-400 whitespace-nowrap">
-                              ±{result.result.model_info?.range_margin} years
+                              {result.result.model_info.range_margin !== null
+                                ? `±${result.result.model_info.range_margin} years`
+                                : "Margin not reported"}
                             </span>
                           </div>
                         </div>
@@ -969,7 +1536,7 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
                         <div className="grid grid-cols-2 gap-2 sm:gap-3">
                           <div className="bg-slate-800/40 rounded-lg p-2 sm:p-3 text-center border border-slate-700/30">
                             <div className="text-base sm:text-lg font-bold text-emerald-400">
-                              {result.result.age_min}
+                              {result.result.age_min ?? "—"}
                             </div>
                             <div className="text-xs text-slate-400">
                               Min Age
@@ -977,7 +1544,7 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
                           </div>
                           <div className="bg-slate-800/40 rounded-lg p-2 sm:p-3 text-center border border-slate-700/30">
                             <div className="text-base sm:text-lg font-bold text-emerald-400">
-                              {result.result.age_max}
+                              {result.result.age_max ?? "—"}
                             </div>
                             <div className="text-xs text-slate-400">
                               Max Age
@@ -1012,7 +1579,9 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
 
                     <div className="text-center sm:text-left">
                       <div className="text-3xl sm:text-4xl lg:text-5xl font-black text-emerald-400 mb-2 sm:mb-3">
-                        {Math.round((result.result.confidence || 0) * 100)}%
+                        {result.result.confidence !== null
+                          ? `${Math.round(result.result.confidence * 100)}%`
+                          : "N/A"}
                       </div>
                     </div>
 
@@ -1021,7 +1590,7 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
                         <div
                           className="h-full bg-gradient-to-r from-emerald-500 to-emerald-400 rounded-full transition-all duration-1000 ease-out shadow-lg"
                           style={{
-                            width: `${(result.result.confidence || 0) * 100}%`,
+                            width: `${(result.result.confidence ?? 0) * 100}%`,
                           }}
                         ></div>
                       </div>
@@ -1072,7 +1641,9 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
                         <div className="flex justify-between items-center">
                           <span>Scaling Factor:</span>
                           <span className="font-mono text-xs sm:text-sm">
-                            ×{result.result.model_info?.scaling_factor || 1}
+                            {result.result.model_info.scaling_factor !== null
+                              ? `×${result.result.model_info.scaling_factor}`
+                              : "N/A"}
                           </span>
                         </div>
                         <div className="flex justify-between items-center">
@@ -1087,6 +1658,12 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
                 </div>
               </div>
 
+              <FaceResults
+                faces={result.result.faces}
+                activeFace={activeFace}
+                onSelectFace={setActiveFace}
+              />
+
               {result.result.message && (
                 <div className="mt-6 p-4 bg-slate-800/60 backdrop-blur-sm rounded-lg border border-slate-700/50">
                   <div className="flex items-start gap-3">
@@ -1102,16 +1679,80 @@ export default function AgeDetector({ className = "" }: AgeDetectorProps) {
                 timestamp={result.result.timestamp}
                 modelInfo={result.result.model_info}
               />
+
+              {!isCompact && (
+                <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+                  <ExportMenu
+                    baseName={`age-detection-${result.result.timestamp.slice(0, 10)}`}
+                    records={[
+                      {
+                        fileName: lastFileRef.current?.name ?? "photo.jpg",
+                        source: lastSourceRef.current,
+                        createdAt: result.result.timestamp,
+                        thumbnail: selectedImage,
+                        result,
+                      },
+                    ]}
+                  />
+                  <ShareButton
+                    result={result}
+                    imageUrl={selectedImage}
+                    activeFace={activeFace}
+                  />
+                </div>
+              )}
             </div>
           )}
 
+          {pendingSubmission && qualityReport && (
+            <QualityWarnings
+              issues={qualityReport.issues}
+              onSubmitAnyway={() => {
+                setPendingSubmission(null);
+                detectAge(
+                  pendingSubmission.file,
+                  pendingSubmission.submission ?? undefined
+                );
+              }}
+              onChooseAnother={resetDetector}
+            />
+          )}
+
           {/* Error Display */}
           <ErrorDisplay error={error} setError={setError} />
+          <RateLimitNotice
+            retryAt={rateLimitRetryAt}
+            onRetry={() => {
+              if (lastFileRef.current) {
+                detectAge(
+                  lastFileRef.current,
+                  lastCropsRef.current ?? undefined
+                );
+              }
+            }}
+            onDismiss={() => setRateLimitRetryAt(null)}
+          />
         </div>
       )}
 
+      {!isCompact && (
+        <HistoryPanel
+          onRerun={(entry) =>
+            requestDetection(
+              new File([entry.image], entry.fileName, {
+                type: entry.image.type,
+              })
+            )
+          }
+        />
+      )}
+
       {/* Tips Section */}
-      <TipsSection />
+      {!isCompact && (
+        <TipsSection
+          highlighted={qualityReport?.issues.map((issue) => issue.code) ?? []}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from "react";
+import { FiShield } from "react-icons/fi";
+import { AgeGateOptions } from "@/types";
+import { getAgeGateOptions } from "@/lib/client";
+
+type AgeGateControlsProps = {
+  // Null while estimating ages, the threshold to check against otherwise
+  threshold: number | null;
+  onChange: (threshold: number | null) => void;
+  disabled: boolean;
+};
+
+const AgeGateControls: React.FC<AgeGateControlsProps> = ({
+  threshold,
+  onChange,
+  disabled,
+}) => {
+  const [options, setOptions] = useState<AgeGateOptions | null>(null);
+
+  useEffect(() => {
+    getAgeGateOptions()
+      .then(setOptions)
+      .catch(() => setOptions(null));
+  }, []);
+
+  // Without the server's policy there is nothing to check against
+  if (!options || options.thresholds.length === 0) return null;
+
+  return (
+    <div className="mb-6 bg-slate-900/60 backdrop-blur-sm rounded-xl p-4 border border-slate-700/50 flex flex-wrap items-center gap-3">
+      <label className="flex items-center gap-2 text-slate-200 text-sm cursor-pointer">
+        <input
+          type="checkbox"
+          checked={threshold !== null}
+          disabled={disabled}
+          onChange={(e) =>
+            onChange(e.target.checked ? options.thresholds[0] : null)
+          }
+        />
+        <FiShield className="text-blue-400" />
+        Age check mode
+      </label>
+      {threshold !== null && (
+        <>
+          <select
+            value={threshold}
+            disabled={disabled}
+            onChange={(e) => onChange(Number(e.target.value))}
+            aria-label="Minimum age"
+            className="px-2 py-1 bg-slate-800 border border-slate-700 text-slate-200 rounded text-sm"
+          >
+            {options.thresholds.map((value) => (
+              <option key={value} value={value}>
+                {value}+
+              </option>
+            ))}
+          </select>
+          <span className="text-xs text-slate-400">
+            Passes when the whole estimated range is at least{" "}
+            {threshold + options.buffer_years}, with{" "}
+            {Math.round(options.min_confidence * 100)}% confidence or more
+          </span>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AgeGateControls;
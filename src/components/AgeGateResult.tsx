@@ -0,0 +1,87 @@
+import React from "react";
+import { FiAlertCircle, FiCheckCircle, FiXCircle } from "react-icons/fi";
+import { AgeGateDecision, AgeGateReason, AgeGateStatus } from "@/types";
+
+type AgeGateResultProps = {
+  decision: AgeGateDecision;
+};
+
+const STATUS_STYLES: Record<
+  AgeGateStatus,
+  { label: string; icon: React.ReactNode; className: string }
+> = {
+  pass: {
+    label: "Pass",
+    icon: <FiCheckCircle className="text-emerald-400" />,
+    className: "bg-emerald-900/30 border-emerald-600/50 text-emerald-200",
+  },
+  fail: {
+    label: "Fail",
+    icon: <FiXCircle className="text-red-400" />,
+    className: "bg-red-900/30 border-red-600/50 text-red-200",
+  },
+  needs_review: {
+    label: "Needs review",
+    icon: <FiAlertCircle className="text-amber-400" />,
+    className: "bg-amber-900/30 border-amber-600/50 text-amber-200",
+  },
+};
+
+const REASONS: Record<AgeGateReason, string> = {
+  above_threshold: "The whole estimated range is clear of the threshold.",
+  below_threshold: "The whole estimated range is under the threshold.",
+  within_buffer:
+    "The estimate is too close to the threshold to decide automatically.",
+  low_confidence: "The model isn't confident enough in this estimate.",
+  no_face: "No face was found in the photo.",
+  multiple_faces: "More than one face was found; check one person at a time.",
+};
+
+const AgeGateResult: React.FC<AgeGateResultProps> = ({ decision }) => {
+  const style = STATUS_STYLES[decision.status];
+  const range =
+    decision.age_min !== null && decision.age_max !== null
+      ? `${decision.age_min}–${decision.age_max}`
+      : null;
+
+  return (
+    <div
+      className={`backdrop-blur-sm rounded-xl p-6 border shadow-xl slide-in-left ${style.className}`}
+    >
+      <div className="flex items-center gap-3 mb-2">
+        <span className="text-3xl">{style.icon}</span>
+        <div>
+          <p className="text-sm opacity-80">
+            Age check: {decision.policy.threshold}+
+          </p>
+          <h3 className="text-2xl font-bold">{style.label}</h3>
+        </div>
+      </div>
+      <p className="text-sm mb-4">{REASONS[decision.reason]}</p>
+      <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+        <div>
+          <dt className="opacity-70">Estimated age</dt>
+          <dd className="font-mono">{decision.age ?? "—"}</dd>
+        </div>
+        <div>
+          <dt className="opacity-70">Range</dt>
+          <dd className="font-mono">{range ?? "—"}</dd>
+        </div>
+        <div>
+          <dt className="opacity-70">Confidence</dt>
+          <dd className="font-mono">
+            {decision.confidence !== null
+              ? `${Math.round(decision.confidence * 100)}%`
+              : "—"}
+          </dd>
+        </div>
+        <div>
+          <dt className="opacity-70">Buffer</dt>
+          <dd className="font-mono">{decision.policy.buffer_years} years</dd>
+        </div>
+      </dl>
+    </div>
+  );
+};
+
+export default AgeGateResult;
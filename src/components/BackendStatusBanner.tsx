@@ -0,0 +1,59 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { FiAlertTriangle, FiRefreshCw } from "react-icons/fi";
+import { ReadinessReport } from "@/types";
+import { checkReadiness } from "@/lib/client";
+
+// How often to re-check while the page is open
+const POLL_INTERVAL_MS = 30000;
+
+const BackendStatusBanner: React.FC = () => {
+  const [report, setReport] = useState<ReadinessReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const checkStatus = useCallback(async () => {
+    setIsChecking(true);
+    try {
+      setReport(await checkReadiness());
+    } catch {
+      // Leave the last known state in place if the check itself fails
+    } finally {
+      setIsChecking(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    checkStatus();
+    const intervalId = setInterval(checkStatus, POLL_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [checkStatus]);
+
+  if (!report || report.status === "ready") return null;
+
+  return (
+    <div className="mb-6 bg-amber-900/30 backdrop-blur-sm border border-amber-600/50 rounded-lg p-4 scale-in">
+      <div className="flex items-start gap-3">
+        <FiAlertTriangle className="text-2xl text-amber-400 flex-shrink-0" />
+        <div className="flex-1">
+          <h4 className="font-semibold text-amber-200 mb-1">
+            The AI service is currently unavailable
+          </h4>
+          <p className="text-amber-300 text-sm">
+            {report.backend_reachable
+              ? "The service is misconfigured, so photos can't be analyzed right now."
+              : "We can't reach the age detection model right now. Photos you upload may fail until it's back."}
+          </p>
+        </div>
+        <button
+          onClick={checkStatus}
+          disabled={isChecking}
+          className="px-3 py-1 bg-amber-800/50 hover:bg-amber-700/50 disabled:opacity-50 text-amber-200 rounded text-sm transition-colors cursor-pointer flex items-center gap-1"
+        >
+          <FiRefreshCw className={isChecking ? "animate-spin" : ""} /> Check
+          again
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BackendStatusBanner;
@@ -0,0 +1,114 @@
+import React from "react";
+import {
+  FiCheckCircle,
+  FiClock,
+  FiLoader,
+  FiRotateCw,
+  FiXCircle,
+} from "react-icons/fi";
+import { BatchItem, BatchItemStatus } from "@/types";
+
+type BatchQueueProps = {
+  items: BatchItem[];
+  onRetry: (id: string) => void;
+  onRetryFailed: () => void;
+};
+
+const statusStyles: Record<BatchItemStatus, string> = {
+  queued: "bg-slate-700/60 text-slate-300 border-slate-600/50",
+  running: "bg-blue-900/40 text-blue-200 border-blue-600/50",
+  done: "bg-emerald-900/40 text-emerald-200 border-emerald-600/50",
+  failed: "bg-red-900/40 text-red-200 border-red-600/50",
+};
+
+const statusIcons: Record<BatchItemStatus, React.ReactNode> = {
+  queued: <FiClock />,
+  running: <FiLoader className="animate-spin" />,
+  done: <FiCheckCircle />,
+  failed: <FiXCircle />,
+};
+
+const BatchQueue: React.FC<BatchQueueProps> = ({
+  items,
+  onRetry,
+  onRetryFailed,
+}) => {
+  const finished = items.filter(
+    (item) => item.status === "done" || item.status === "failed"
+  ).length;
+  const failed = items.filter((item) => item.status === "failed").length;
+  const progress = items.length > 0 ? (finished / items.length) * 100 : 0;
+
+  return (
+    <div className="bg-slate-900/60 backdrop-blur-sm rounded-xl p-4 sm:p-6 border border-slate-700/50 shadow-xl">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="text-lg sm:text-xl font-semibold text-white">
+          Batch Progress
+        </h3>
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-slate-400">
+            {finished} / {items.length} processed
+          </span>
+          {failed > 0 && (
+            <button
+              onClick={onRetryFailed}
+              className="px-3 py-1 bg-red-800/50 hover:bg-red-700/50 text-red-200 rounded text-sm transition-colors cursor-pointer flex items-center gap-1"
+            >
+              <FiRotateCw /> Retry failed ({failed})
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="w-full bg-slate-700/50 rounded-full h-2 overflow-hidden mb-4">
+        <div
+          className="h-full bg-gradient-to-r from-blue-500 to-emerald-400 rounded-full transition-all duration-500 ease-out"
+          style={{ width: `${progress}%` }}
+        ></div>
+      </div>
+
+      <ul className="space-y-2 max-h-80 overflow-y-auto pr-1">
+        {items.map((item) => (
+          <li
+            key={item.id}
+            className="flex items-center gap-3 bg-slate-800/40 rounded-lg px-3 py-2 border border-slate-700/30"
+          >
+            <span
+              className={`flex items-center gap-1 px-2 py-0.5 rounded border text-xs font-medium capitalize ${
+                statusStyles[item.status]
+              }`}
+            >
+              {statusIcons[item.status]}
+              {item.status}
+            </span>
+            <div className="flex-1 min-w-0">
+              <div className="text-sm text-slate-200 truncate">
+                {item.fileName}
+              </div>
+              {item.status === "failed" && item.error && (
+                <div className="text-xs text-red-300 truncate">
+                  {item.error}
+                </div>
+              )}
+            </div>
+            {item.attempts > 1 && (
+              <span className="text-xs text-slate-500">
+                attempt {item.attempts}
+              </span>
+            )}
+            {item.status === "failed" && (
+              <button
+                onClick={() => onRetry(item.id)}
+                className="px-2 py-1 bg-slate-700 hover:bg-slate-600 text-white rounded text-xs transition-colors cursor-pointer flex items-center gap-1"
+              >
+                <FiRotateCw /> Retry
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default BatchQueue;
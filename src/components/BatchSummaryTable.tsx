@@ -0,0 +1,134 @@
+import React, { useMemo, useState } from "react";
+import { FiArrowDown, FiArrowUp } from "react-icons/fi";
+import { BatchItem } from "@/types";
+
+type BatchSummaryTableProps = {
+  items: BatchItem[];
+};
+
+type SortKey = "fileName" | "age" | "range" | "confidence" | "gender";
+type SortDirection = "asc" | "desc";
+
+const columns: { key: SortKey; label: string }[] = [
+  { key: "fileName", label: "File" },
+  { key: "age", label: "Age" },
+  { key: "range", label: "Range" },
+  { key: "confidence", label: "Confidence" },
+  { key: "gender", label: "Gender" },
+];
+
+// Failed items have no values and always sort last
+function getSortValue(item: BatchItem, key: SortKey): string | number | null {
+  const result = item.result?.result;
+  switch (key) {
+    case "fileName":
+      return item.fileName.toLowerCase();
+    case "age":
+      return result?.age ?? null;
+    case "range":
+      return result?.age_min ?? null;
+    case "confidence":
+      return result?.confidence ?? null;
+    case "gender":
+      return result?.gender ?? null;
+  }
+}
+
+const BatchSummaryTable: React.FC<BatchSummaryTableProps> = ({ items }) => {
+  const [sortKey, setSortKey] = useState<SortKey>("fileName");
+  const [sortDirection, setSortDirection] = useState<SortDirection>("asc");
+
+  const sortedItems = useMemo(() => {
+    const direction = sortDirection === "asc" ? 1 : -1;
+    return [...items].sort((a, b) => {
+      const valueA = getSortValue(a, sortKey);
+      const valueB = getSortValue(b, sortKey);
+      if (valueA === null && valueB === null) return 0;
+      if (valueA === null) return 1;
+      if (valueB === null) return -1;
+      if (valueA < valueB) return -direction;
+      if (valueA > valueB) return direction;
+      return 0;
+    });
+  }, [items, sortKey, sortDirection]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDirection(sortDirection === "asc" ? "desc" : "asc");
+    } else {
+      setSortKey(key);
+      setSortDirection("asc");
+    }
+  };
+
+  return (
+    <div className="bg-slate-900/60 backdrop-blur-sm rounded-xl p-4 sm:p-6 border border-slate-700/50 shadow-xl slide-in-left">
+      <h3 className="text-lg sm:text-xl font-semibold text-white mb-4">
+        Batch Summary
+      </h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left text-slate-300">
+          <thead className="text-xs uppercase text-slate-400 border-b border-slate-700/50">
+            <tr>
+              {columns.map((column) => (
+                <th key={column.key} className="px-3 py-2">
+                  <button
+                    onClick={() => handleSort(column.key)}
+                    className="flex items-center gap-1 uppercase cursor-pointer hover:text-slate-200"
+                  >
+                    {column.label}
+                    {sortKey === column.key &&
+                      (sortDirection === "asc" ? (
+                        <FiArrowUp />
+                      ) : (
+                        <FiArrowDown />
+                      ))}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sortedItems.map((item) => {
+              const result = item.result?.result;
+              return (
+                <tr
+                  key={item.id}
+                  className="border-b border-slate-800/60 last:border-0"
+                >
+                  <td className="px-3 py-2 max-w-[12rem] truncate">
+                    {item.fileName}
+                  </td>
+                  {result ? (
+                    <>
+                      <td className="px-3 py-2 font-semibold text-white">
+                        {result.age}
+                      </td>
+                      <td className="px-3 py-2">
+                        {result.age_range ?? "Unknown"}
+                      </td>
+                      <td className="px-3 py-2 text-emerald-400">
+                        {result.confidence !== null
+                          ? `${Math.round(result.confidence * 100)}%`
+                          : "N/A"}
+                      </td>
+                      <td className="px-3 py-2 capitalize">
+                        {result.gender || "N/A"}
+                      </td>
+                    </>
+                  ) : (
+                    <td colSpan={4} className="px-3 py-2 text-red-300">
+                      {item.error || "Failed"}
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default BatchSummaryTable;
@@ -0,0 +1,60 @@
+import React, { useState } from "react";
+import Image from "next/image";
+
+type BeforeAfterSliderProps = {
+  before: string;
+  after: string;
+};
+
+// Original on the left of the divider, preprocessed on the right
+const BeforeAfterSlider: React.FC<BeforeAfterSliderProps> = ({
+  before,
+  after,
+}) => {
+  const [position, setPosition] = useState(50);
+
+  return (
+    <div className="relative w-full select-none">
+      <Image
+        src={after}
+        alt="After preprocessing"
+        width={400}
+        height={400}
+        className="w-full h-auto max-h-96 object-cover rounded-lg shadow-lg"
+      />
+      <div
+        className="absolute inset-0"
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+      >
+        <Image
+          src={before}
+          alt="Before preprocessing"
+          width={400}
+          height={400}
+          className="w-full h-full object-cover rounded-lg"
+        />
+      </div>
+      <div
+        className="absolute inset-y-0 w-0.5 bg-white/80 pointer-events-none"
+        style={{ left: `${position}%` }}
+      />
+      <span className="absolute top-2 left-2 bg-slate-900/70 text-slate-200 text-xs px-2 py-0.5 rounded">
+        Before
+      </span>
+      <span className="absolute top-2 right-2 bg-slate-900/70 text-slate-200 text-xs px-2 py-0.5 rounded">
+        After
+      </span>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={position}
+        onChange={(e) => setPosition(Number(e.target.value))}
+        className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"
+        aria-label="Compare before and after preprocessing"
+      />
+    </div>
+  );
+};
+
+export default BeforeAfterSlider;
@@ -0,0 +1,36 @@
+"use client";
+
+import { useCallback } from "react";
+import { DetectorEvent, EmbedConfig, EmbedMessage } from "@/types";
+import AgeDetector from "./AgeDetector";
+
+type EmbeddedDetectorProps = {
+  config: EmbedConfig;
+};
+
+export default function EmbeddedDetector({ config }: EmbeddedDetectorProps) {
+  const postToHost = useCallback(
+    (event: DetectorEvent) => {
+      if (window.parent === window || !config.parentOrigin) return;
+
+      const message: EmbedMessage = { ...event, source: "age-detector" };
+      window.parent.postMessage(message, config.parentOrigin);
+    },
+    [config]
+  );
+
+  return (
+    <div
+      className={`min-h-screen bg-slate-950 ${
+        config.theme === "light" ? "theme-light" : ""
+      }`}
+    >
+      <AgeDetector
+        layout="compact"
+        allowCamera={config.camera}
+        ageGateThreshold={config.ageGateThreshold ?? undefined}
+        onEvent={postToHost}
+      />
+    </div>
+  );
+}
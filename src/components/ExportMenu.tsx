@@ -0,0 +1,64 @@
+import React from "react";
+import { FiDownload, FiFileText, FiPrinter } from "react-icons/fi";
+import { ExportRecord } from "@/types";
+import {
+  downloadFile,
+  printReport,
+  toCsv,
+  toJson,
+  toReportHtml,
+} from "@/lib/export";
+
+type ExportMenuProps = {
+  records: ExportRecord[];
+  // File name without extension
+  baseName: string;
+};
+
+const buttonClass =
+  "px-3 py-1 bg-slate-700/70 hover:bg-slate-600 text-slate-200 rounded text-sm transition-colors cursor-pointer flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed";
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ records, baseName }) => {
+  const disabled = records.length === 0;
+
+  const printOrDownload = () => {
+    const html = toReportHtml(records);
+    // Popup blocked, the saved page can still be printed
+    if (!printReport(html)) {
+      downloadFile(html, `${baseName}.html`, "text/html");
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-slate-400">Export</span>
+      <button
+        onClick={() =>
+          downloadFile(toJson(records), `${baseName}.json`, "application/json")
+        }
+        disabled={disabled}
+        className={buttonClass}
+      >
+        <FiDownload /> JSON
+      </button>
+      <button
+        onClick={() =>
+          downloadFile(toCsv(records), `${baseName}.csv`, "text/csv")
+        }
+        disabled={disabled}
+        className={buttonClass}
+      >
+        <FiFileText /> CSV
+      </button>
+      <button
+        onClick={printOrDownload}
+        disabled={disabled}
+        className={buttonClass}
+      >
+        <FiPrinter /> Report
+      </button>
+    </div>
+  );
+};
+
+export default ExportMenu;
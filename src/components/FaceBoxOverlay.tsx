@@ -0,0 +1,77 @@
+import React from "react";
+import { DetectedFace } from "@/types";
+
+type FaceBoxOverlayProps = {
+  faces: DetectedFace[];
+  imageWidth: number;
+  imageHeight: number;
+  activeFace: number | null;
+  onSelectFace: (index: number) => void;
+};
+
+// Draws numbered face boxes over a preview rendered with `object-cover`;
+// `xMidYMid slice` crops the viewBox the same way so boxes stay aligned.
+const FaceBoxOverlay: React.FC<FaceBoxOverlayProps> = ({
+  faces,
+  imageWidth,
+  imageHeight,
+  activeFace,
+  onSelectFace,
+}) => {
+  if (faces.length === 0 || imageWidth === 0 || imageHeight === 0) return null;
+
+  const labelSize = Math.max(imageWidth, imageHeight) * 0.045;
+
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full rounded-lg"
+      viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+      preserveAspectRatio="xMidYMid slice"
+    >
+      {faces.map((face, index) => {
+        const isActive = activeFace === index;
+        const { x, y, width, height } = face.bbox;
+
+        return (
+          <a
+            key={index}
+            href={`#face-result-${index + 1}`}
+            onClick={() => onSelectFace(index)}
+            className="cursor-pointer"
+          >
+            <title>{`Face ${index + 1}: ${face.age} years`}</title>
+            <rect
+              x={x}
+              y={y}
+              width={width}
+              height={height}
+              fill={isActive ? "rgba(96, 165, 250, 0.15)" : "transparent"}
+              stroke={isActive ? "#60a5fa" : "#ffffff"}
+              strokeWidth={isActive ? 3 : 2}
+              vectorEffect="non-scaling-stroke"
+            />
+            <rect
+              x={x}
+              y={Math.max(0, y - labelSize * 1.4)}
+              width={labelSize * 1.6}
+              height={labelSize * 1.4}
+              fill={isActive ? "#60a5fa" : "#ffffff"}
+            />
+            <text
+              x={x + labelSize * 0.8}
+              y={Math.max(0, y - labelSize * 1.4) + labelSize * 1.05}
+              fontSize={labelSize}
+              fontWeight="bold"
+              textAnchor="middle"
+              fill="#0f172a"
+            >
+              {index + 1}
+            </text>
+          </a>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default FaceBoxOverlay;
@@ -0,0 +1,54 @@
+import React from "react";
+import Image from "next/image";
+import { FiCrop } from "react-icons/fi";
+
+type FaceCropStripProps = {
+  // Data URLs of the crops that were sent, in face order
+  crops: string[];
+  activeFace: number | null;
+  onSelectFace: (index: number) => void;
+};
+
+// Shows exactly what the model saw when faces were cropped out of the photo
+const FaceCropStrip: React.FC<FaceCropStripProps> = ({
+  crops,
+  activeFace,
+  onSelectFace,
+}) => {
+  if (crops.length === 0) return null;
+
+  return (
+    <div className="mt-4">
+      <p className="text-slate-400 text-sm mb-2 flex items-center gap-2">
+        <FiCrop /> Sent to the model
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {crops.map((crop, index) => (
+          <button
+            key={index}
+            onClick={() => onSelectFace(index)}
+            className={`relative rounded-lg overflow-hidden border-2 transition-colors cursor-pointer ${
+              activeFace === index
+                ? "border-blue-400"
+                : "border-slate-700 hover:border-slate-500"
+            }`}
+            aria-label={`Face ${index + 1} crop`}
+          >
+            <Image
+              src={crop}
+              alt={`Face ${index + 1} as sent`}
+              width={64}
+              height={64}
+              className="w-16 h-16 object-cover"
+            />
+            <span className="absolute bottom-0 right-0 bg-slate-900/80 text-slate-200 text-xs px-1 rounded-tl">
+              {index + 1}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FaceCropStrip;
@@ -0,0 +1,105 @@
+import React from "react";
+import { FiUsers } from "react-icons/fi";
+import { IoMaleOutline, IoFemaleOutline } from "react-icons/io5";
+import { DetectedFace } from "@/types";
+
+type FaceResultsProps = {
+  faces: DetectedFace[];
+  activeFace: number | null;
+  onSelectFace: (index: number) => void;
+};
+
+const FaceResults: React.FC<FaceResultsProps> = ({
+  faces,
+  activeFace,
+  onSelectFace,
+}) => {
+  if (faces.length === 0) return null;
+
+  return (
+    <div className="mt-6">
+      <h4 className="text-base sm:text-lg font-semibold text-white mb-4 flex items-center gap-2">
+        <FiUsers className="text-slate-300" />
+        Detected Faces ({faces.length})
+      </h4>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {faces.map((face, index) => {
+          const isActive = activeFace === index;
+
+          return (
+            <div
+              key={index}
+              id={`face-result-${index + 1}`}
+              onClick={() => onSelectFace(index)}
+              className={`scroll-mt-6 rounded-xl p-4 border cursor-pointer transition-colors ${
+                isActive
+                  ? "bg-blue-900/40 border-blue-400/60"
+                  : "bg-slate-800/60 border-slate-700/50 hover:border-slate-500"
+              }`}
+            >
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center gap-2">
+                  <span
+                    className={`w-7 h-7 rounded flex items-center justify-center text-sm font-bold ${
+                      isActive
+                        ? "bg-blue-400 text-slate-900"
+                        : "bg-white text-slate-900"
+                    }`}
+                  >
+                    {index + 1}
+                  </span>
+                  <span className="text-sm font-medium text-slate-300">
+                    Face {index + 1}
+                  </span>
+                </div>
+                {face.gender === "male" && (
+                  <IoMaleOutline className="text-xl text-purple-300" />
+                )}
+                {face.gender === "female" && (
+                  <IoFemaleOutline className="text-xl text-purple-300" />
+                )}
+              </div>
+
+              <div className="flex items-end gap-2 mb-3">
+                <span className="text-4xl font-black text-transparent bg-gradient-to-br from-white via-blue-200 to-blue-400 bg-clip-text leading-none">
+                  {face.age}
+                </span>
+                <span className="text-sm text-slate-400">years old</span>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2 text-xs text-slate-400">
+                <div>
+                  <div className="font-medium text-slate-300">Age Range</div>
+                  <div>{face.age_range ?? "Unknown"}</div>
+                </div>
+                <div>
+                  <div className="font-medium text-slate-300">Gender</div>
+                  <div className="capitalize">{face.gender || "N/A"}</div>
+                </div>
+              </div>
+
+              <div className="mt-3">
+                <div className="flex justify-between text-xs text-emerald-300/70 mb-1">
+                  <span>Confidence</span>
+                  <span>
+                    {face.confidence !== null
+                      ? `${Math.round(face.confidence * 100)}%`
+                      : "N/A"}
+                  </span>
+                </div>
+                <div className="w-full bg-slate-700/50 rounded-full h-2 overflow-hidden">
+                  <div
+                    className="h-full bg-gradient-to-r from-emerald-500 to-emerald-400 rounded-full"
+                    style={{ width: `${(face.confidence ?? 0) * 100}%` }}
+                  ></div>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default FaceResults;
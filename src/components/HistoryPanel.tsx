@@ -0,0 +1,250 @@
+import React, { useCallback, useEffect, useState } from "react";
+import Image from "next/image";
+import {
+  FiCamera,
+  FiChevronDown,
+  FiChevronUp,
+  FiClock,
+  FiRotateCw,
+  FiSearch,
+  FiTrash2,
+  FiUpload,
+} from "react-icons/fi";
+import { AgeDetectionResult, HistoryEntry, HistoryFilter } from "@/types";
+import {
+  EMPTY_HISTORY_FILTER,
+  filterHistory,
+  historyStore,
+} from "@/lib/history";
+import ExportMenu from "./ExportMenu";
+
+type HistoryPanelProps = {
+  // Sends the stored image to the current backend again
+  onRerun: (entry: HistoryEntry) => Promise<AgeDetectionResult>;
+};
+
+const inputClass =
+  "bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm text-slate-200 placeholder-slate-500";
+
+function parseAge(value: string): number | null {
+  return value === "" ? null : Number(value);
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ onRerun }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [filter, setFilter] = useState<HistoryFilter>(EMPTY_HISTORY_FILTER);
+  const [rerunningId, setRerunningId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    historyStore
+      .list()
+      .then(setEntries)
+      .catch((err) => {
+        console.warn("Could not read detection history:", err);
+        setError("History is unavailable in this browser.");
+      });
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return historyStore.subscribe(refresh);
+  }, [refresh]);
+
+  const updateFilter = (changes: Partial<HistoryFilter>) =>
+    setFilter((current) => ({ ...current, ...changes }));
+
+  const rerun = async (entry: HistoryEntry) => {
+    setRerunningId(entry.id);
+    setError(null);
+    try {
+      const result = await onRerun(entry);
+      await historyStore.update(entry.id, {
+        result,
+        rerunAt: new Date().toISOString(),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Re-run failed");
+    } finally {
+      setRerunningId(null);
+    }
+  };
+
+  const clearAll = () => {
+    if (window.confirm("Delete the whole detection history?")) {
+      historyStore.clear();
+    }
+  };
+
+  const visible = filterHistory(entries, filter);
+
+  return (
+    <div className="mt-8 bg-slate-900/40 backdrop-blur-sm rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="w-full px-4 py-3 flex items-center justify-between text-left cursor-pointer"
+      >
+        <span className="flex items-center gap-2 text-white font-medium">
+          <FiClock className="text-blue-400" />
+          History
+          <span className="text-sm text-slate-400 font-normal">
+            {entries.length} saved
+          </span>
+        </span>
+        {isOpen ? (
+          <FiChevronUp className="text-slate-400" />
+        ) : (
+          <FiChevronDown className="text-slate-400" />
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="flex items-center gap-2 flex-1 min-w-48">
+              <FiSearch className="text-slate-400" />
+              <input
+                value={filter.query}
+                onChange={(e) => updateFilter({ query: e.target.value })}
+                placeholder="Search file name, age, gender"
+                className={`${inputClass} flex-1`}
+              />
+            </label>
+            <input
+              type="date"
+              value={filter.from}
+              onChange={(e) => updateFilter({ from: e.target.value })}
+              className={inputClass}
+              aria-label="From date"
+            />
+            <input
+              type="date"
+              value={filter.to}
+              onChange={(e) => updateFilter({ to: e.target.value })}
+              className={inputClass}
+              aria-label="To date"
+            />
+            <input
+              type="number"
+              min={0}
+              value={filter.minAge ?? ""}
+              onChange={(e) =>
+                updateFilter({ minAge: parseAge(e.target.value) })
+              }
+              placeholder="Min age"
+              className={`${inputClass} w-24`}
+            />
+            <input
+              type="number"
+              min={0}
+              value={filter.maxAge ?? ""}
+              onChange={(e) =>
+                updateFilter({ maxAge: parseAge(e.target.value) })
+              }
+              placeholder="Max age"
+              className={`${inputClass} w-24`}
+            />
+            {entries.length > 0 && (
+              <button
+                onClick={clearAll}
+                className="px-3 py-1 bg-red-800/50 hover:bg-red-700/50 text-red-200 rounded text-sm transition-colors cursor-pointer flex items-center gap-1"
+              >
+                <FiTrash2 /> Clear all
+              </button>
+            )}
+          </div>
+
+          <ExportMenu
+            baseName={`age-detection-history-${new Date().toISOString().slice(0, 10)}`}
+            records={visible.map((entry) => ({
+              fileName: entry.fileName,
+              source: entry.source,
+              createdAt: entry.createdAt,
+              thumbnail: entry.thumbnail,
+              result: entry.result,
+            }))}
+          />
+
+          {error && <p className="text-sm text-red-300">{error}</p>}
+
+          {visible.length === 0 ? (
+            <p className="text-sm text-slate-400">
+              {entries.length === 0
+                ? "Detections you run will show up here."
+                : "No entries match these filters."}
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {visible.map((entry) => {
+                const estimate = entry.result.result;
+                return (
+                  <li
+                    key={entry.id}
+                    className="flex items-center gap-3 bg-slate-800/50 rounded-lg p-2"
+                  >
+                    <Image
+                      src={entry.thumbnail}
+                      alt={entry.fileName}
+                      width={48}
+                      height={48}
+                      className="w-12 h-12 object-cover rounded"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-white truncate flex items-center gap-2">
+                        {entry.source === "camera" ? (
+                          <FiCamera className="text-slate-400 shrink-0" />
+                        ) : (
+                          <FiUpload className="text-slate-400 shrink-0" />
+                        )}
+                        {entry.fileName}
+                      </p>
+                      <p className="text-xs text-slate-400">
+                        {new Date(entry.createdAt).toLocaleString()}
+                        {entry.rerunAt &&
+                          ` · re-run ${new Date(entry.rerunAt).toLocaleString()}`}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-white font-semibold">
+                        {estimate ? `${estimate.age} yrs` : "—"}
+                      </p>
+                      <p className="text-xs text-slate-400">
+                        {estimate?.age_range ?? ""}
+                        {(estimate?.faces_count ?? 0) > 1 &&
+                          ` · ${estimate?.faces_count} faces`}
+                      </p>
+                    </div>
+                    <div className="flex gap-1 text-slate-400">
+                      <button
+                        onClick={() => rerun(entry)}
+                        disabled={rerunningId !== null}
+                        className="p-2 hover:text-white disabled:opacity-30 cursor-pointer"
+                        aria-label="Re-run against the current backend"
+                      >
+                        <FiRotateCw
+                          className={
+                            rerunningId === entry.id ? "animate-spin" : ""
+                          }
+                        />
+                      </button>
+                      <button
+                        onClick={() => historyStore.remove(entry.id)}
+                        className="p-2 hover:text-red-300 cursor-pointer"
+                        aria-label="Delete entry"
+                      >
+                        <FiTrash2 />
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
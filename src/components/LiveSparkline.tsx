@@ -0,0 +1,65 @@
+import React from "react";
+
+type LiveSparklineProps = {
+  values: number[];
+  width?: number;
+  height?: number;
+};
+
+const LiveSparkline: React.FC<LiveSparklineProps> = ({
+  values,
+  width = 160,
+  height = 40,
+}) => {
+  if (values.length < 2) return null;
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  // Keep a flat line centred when every estimate is the same
+  const span = max - min || 1;
+  const padding = 4;
+
+  const points = values
+    .map((value, index) => {
+      const x = (index / (values.length - 1)) * width;
+      const y =
+        height - padding - ((value - min) / span) * (height - padding * 2);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+
+  const last = values[values.length - 1];
+
+  return (
+    <div className="flex items-center gap-3">
+      <svg
+        width={width}
+        height={height}
+        viewBox={`0 0 ${width} ${height}`}
+        className="overflow-visible"
+      >
+        <polyline
+          points={points}
+          fill="none"
+          stroke="#34d399"
+          strokeWidth={2}
+          strokeLinejoin="round"
+          strokeLinecap="round"
+        />
+      </svg>
+      <div className="text-xs text-slate-400 leading-tight">
+        <div>
+          <span className="text-emerald-300 font-semibold">
+            {last.toFixed(1)}
+          </span>{" "}
+          now
+        </div>
+        <div>
+          {Math.round(min)}–{Math.round(max)} range
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LiveSparkline;
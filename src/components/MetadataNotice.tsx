@@ -0,0 +1,47 @@
+import React from "react";
+import { FiShield } from "react-icons/fi";
+import { MetadataKind } from "@/types";
+
+export interface MetadataNoticeProps {
+  kinds: MetadataKind[];
+}
+
+const KIND_LABELS: Record<MetadataKind, string> = {
+  gps: "GPS location",
+  exif: "camera details (EXIF)",
+  xmp: "editing history (XMP)",
+  iptc: "captions and credits (IPTC)",
+  comment: "embedded comments",
+  text: "text annotations",
+  other: "extra images, motion photo video and other embedded data",
+};
+
+const KIND_ORDER: MetadataKind[] = [
+  "gps",
+  "exif",
+  "xmp",
+  "iptc",
+  "comment",
+  "text",
+  "other",
+];
+
+const MetadataNotice: React.FC<MetadataNoticeProps> = ({ kinds }) => {
+  if (kinds.length === 0) return null;
+
+  const labels = KIND_ORDER.filter((kind) => kinds.includes(kind)).map(
+    (kind) => KIND_LABELS[kind]
+  );
+
+  return (
+    <div className="mt-4 bg-emerald-900/20 border border-emerald-700/40 rounded-lg px-4 py-3 flex items-start gap-3">
+      <FiShield className="text-lg text-emerald-400 mt-0.5 shrink-0" />
+      <p className="text-emerald-200 text-sm">
+        Removed before analysis: {labels.join(", ")}.
+        {kinds.includes("gps") && " Your location was never sent to the model."}
+      </p>
+    </div>
+  );
+};
+
+export default MetadataNotice;
@@ -0,0 +1,313 @@
+import React, { useEffect, useState } from "react";
+import {
+  FiArrowDown,
+  FiArrowUp,
+  FiChevronDown,
+  FiChevronUp,
+  FiSave,
+  FiSliders,
+  FiTrash2,
+} from "react-icons/fi";
+import {
+  PreprocessingPreset,
+  PreprocessingStep,
+  PreprocessingStepType,
+} from "@/types";
+import {
+  BUILT_IN_PRESETS,
+  loadSavedPresets,
+  savePresets,
+} from "@/lib/preprocessing";
+
+type PreprocessingPanelProps = {
+  steps: PreprocessingStep[];
+  onChange: (steps: PreprocessingStep[]) => void;
+};
+
+const stepLabels: Record<PreprocessingStepType, string> = {
+  resize: "Resize",
+  autoLevels: "Auto levels",
+  denoise: "Denoise",
+  grayscale: "Grayscale",
+  crop: "Centre crop",
+};
+
+const aspectRatios = [
+  { label: "1:1", value: 1 },
+  { label: "3:4", value: 3 / 4 },
+  { label: "4:3", value: 4 / 3 },
+];
+
+function sameSteps(a: PreprocessingStep[], b: PreprocessingStep[]) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+type RangeProps = {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  disabled: boolean;
+  onChange: (value: number) => void;
+};
+
+const Range: React.FC<RangeProps> = ({ label, onChange, ...input }) => (
+  <label className="flex items-center gap-2 text-xs text-slate-400">
+    <input
+      type="range"
+      {...input}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-28 accent-blue-500"
+    />
+    {label}
+  </label>
+);
+
+function StepParameters({
+  step,
+  onChange,
+}: {
+  step: PreprocessingStep;
+  onChange: (step: PreprocessingStep) => void;
+}) {
+  const disabled = !step.enabled;
+
+  switch (step.type) {
+    case "resize":
+      return (
+        <Range
+          label={`Longest side ${step.maxSize}px`}
+          value={step.maxSize}
+          min={256}
+          max={1024}
+          step={64}
+          disabled={disabled}
+          onChange={(maxSize) => onChange({ ...step, maxSize })}
+        />
+      );
+    case "autoLevels":
+      return (
+        <Range
+          label={`Clip ${step.clipPercent}%`}
+          value={step.clipPercent}
+          min={0}
+          max={5}
+          step={0.5}
+          disabled={disabled}
+          onChange={(clipPercent) => onChange({ ...step, clipPercent })}
+        />
+      );
+    case "denoise":
+      return (
+        <Range
+          label={`Radius ${step.radius}px`}
+          value={step.radius}
+          min={1}
+          max={3}
+          step={1}
+          disabled={disabled}
+          onChange={(radius) => onChange({ ...step, radius })}
+        />
+      );
+    case "crop":
+      return (
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={step.aspectRatio}
+            disabled={disabled}
+            onChange={(e) =>
+              onChange({ ...step, aspectRatio: Number(e.target.value) })
+            }
+            className="bg-slate-800 border border-slate-600 rounded px-2 py-0.5 text-xs text-slate-200"
+          >
+            {aspectRatios.map((ratio) => (
+              <option key={ratio.label} value={ratio.value}>
+                {ratio.label}
+              </option>
+            ))}
+          </select>
+          <Range
+            label={`Keep ${Math.round(step.scale * 100)}%`}
+            value={step.scale}
+            min={0.5}
+            max={1}
+            step={0.05}
+            disabled={disabled}
+            onChange={(scale) => onChange({ ...step, scale })}
+          />
+        </div>
+      );
+    default:
+      return null;
+  }
+}
+
+// Edits the preprocessing steps and manages named presets
+const PreprocessingPanel: React.FC<PreprocessingPanelProps> = ({
+  steps,
+  onChange,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [savedPresets, setSavedPresets] = useState<PreprocessingPreset[]>([]);
+  const [presetName, setPresetName] = useState("");
+
+  // localStorage only exists in the browser
+  useEffect(() => setSavedPresets(loadSavedPresets()), []);
+
+  const presets = [...BUILT_IN_PRESETS, ...savedPresets];
+  const activePreset = presets.find((preset) => sameSteps(preset.steps, steps));
+
+  const updateStep = (index: number, step: PreprocessingStep) =>
+    onChange(steps.map((current, i) => (i === index ? step : current)));
+
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= steps.length) return;
+    const reordered = [...steps];
+    [reordered[index], reordered[target]] = [
+      reordered[target],
+      reordered[index],
+    ];
+    onChange(reordered);
+  };
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name || BUILT_IN_PRESETS.some((preset) => preset.name === name)) {
+      return;
+    }
+    const updated = [
+      ...savedPresets.filter((preset) => preset.name !== name),
+      { name, builtIn: false, steps },
+    ];
+    setSavedPresets(updated);
+    savePresets(updated);
+    setPresetName("");
+  };
+
+  const deletePreset = (name: string) => {
+    const updated = savedPresets.filter((preset) => preset.name !== name);
+    setSavedPresets(updated);
+    savePresets(updated);
+  };
+
+  return (
+    <div className="mb-6 bg-slate-900/40 backdrop-blur-sm rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="w-full px-4 py-3 flex items-center justify-between text-left cursor-pointer"
+      >
+        <span className="flex items-center gap-2 text-white font-medium">
+          <FiSliders className="text-blue-400" />
+          Preprocessing
+          <span className="text-sm text-slate-400 font-normal">
+            {activePreset?.name ?? "Custom"}
+          </span>
+        </span>
+        {isOpen ? (
+          <FiChevronUp className="text-slate-400" />
+        ) : (
+          <FiChevronDown className="text-slate-400" />
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {presets.map((preset) => (
+              <span
+                key={preset.name}
+                className={`flex items-center rounded-full border text-sm ${
+                  activePreset?.name === preset.name
+                    ? "border-blue-500 bg-blue-900/40 text-blue-200"
+                    : "border-slate-600 text-slate-300"
+                }`}
+              >
+                <button
+                  onClick={() => onChange(preset.steps)}
+                  className="px-3 py-1 cursor-pointer"
+                >
+                  {preset.name}
+                </button>
+                {!preset.builtIn && (
+                  <button
+                    onClick={() => deletePreset(preset.name)}
+                    className="pr-2 text-slate-400 hover:text-red-300 cursor-pointer"
+                    aria-label={`Delete preset ${preset.name}`}
+                  >
+                    <FiTrash2 />
+                  </button>
+                )}
+              </span>
+            ))}
+          </div>
+
+          <ol className="space-y-2">
+            {steps.map((step, index) => (
+              <li
+                key={step.type}
+                className="flex flex-wrap items-center gap-3 bg-slate-800/50 rounded-lg px-3 py-2"
+              >
+                <label className="flex items-center gap-2 w-32 text-sm text-slate-200">
+                  <input
+                    type="checkbox"
+                    checked={step.enabled}
+                    onChange={(e) =>
+                      updateStep(index, { ...step, enabled: e.target.checked })
+                    }
+                    className="accent-blue-500"
+                  />
+                  {stepLabels[step.type]}
+                </label>
+                <div className="flex-1">
+                  <StepParameters
+                    step={step}
+                    onChange={(updated) => updateStep(index, updated)}
+                  />
+                </div>
+                <div className="flex gap-1 text-slate-400">
+                  <button
+                    onClick={() => moveStep(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 hover:text-white disabled:opacity-30 cursor-pointer"
+                    aria-label={`Move ${stepLabels[step.type]} up`}
+                  >
+                    <FiArrowUp />
+                  </button>
+                  <button
+                    onClick={() => moveStep(index, 1)}
+                    disabled={index === steps.length - 1}
+                    className="p-1 hover:text-white disabled:opacity-30 cursor-pointer"
+                    aria-label={`Move ${stepLabels[step.type]} down`}
+                  >
+                    <FiArrowDown />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ol>
+
+          <div className="flex gap-2">
+            <input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && savePreset()}
+              placeholder="Preset name"
+              className="flex-1 bg-slate-800 border border-slate-600 rounded px-3 py-1 text-sm text-slate-200 placeholder-slate-500"
+            />
+            <button
+              onClick={savePreset}
+              disabled={!presetName.trim()}
+              className="px-3 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded text-sm transition-colors cursor-pointer flex items-center gap-1"
+            >
+              <FiSave /> Save preset
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PreprocessingPanel;
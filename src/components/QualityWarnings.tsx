@@ -0,0 +1,51 @@
+import React from "react";
+import { FiAlertTriangle, FiSend, FiRefreshCw } from "react-icons/fi";
+import { QualityIssue } from "@/types";
+
+export interface QualityWarningsProps {
+  issues: QualityIssue[];
+  onSubmitAnyway: () => void;
+  onChooseAnother: () => void;
+}
+
+const QualityWarnings: React.FC<QualityWarningsProps> = ({
+  issues,
+  onSubmitAnyway,
+  onChooseAnother,
+}) => {
+  if (issues.length === 0) return null;
+
+  return (
+    <div className="bg-amber-900/30 backdrop-blur-sm border border-amber-600/50 rounded-lg p-4 sm:p-6 scale-in">
+      <div className="flex items-start gap-3">
+        <FiAlertTriangle className="text-2xl text-amber-400" />
+        <div>
+          <h4 className="font-semibold text-amber-200 mb-2">
+            This photo may give a poor estimate
+          </h4>
+          <ul className="text-amber-300 text-sm sm:text-base space-y-1 list-disc list-inside">
+            {issues.map((issue) => (
+              <li key={issue.code}>{issue.message}</li>
+            ))}
+          </ul>
+          <div className="mt-3 flex gap-2">
+            <button
+              onClick={onSubmitAnyway}
+              className="px-3 py-1 bg-amber-700/60 hover:bg-amber-600/60 text-amber-100 rounded text-sm transition-colors cursor-pointer flex items-center gap-1"
+            >
+              <FiSend /> Submit anyway
+            </button>
+            <button
+              onClick={onChooseAnother}
+              className="px-3 py-1 bg-amber-800/50 hover:bg-amber-700/50 text-amber-200 rounded text-sm transition-colors cursor-pointer flex items-center gap-1"
+            >
+              <FiRefreshCw /> Choose another photo
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QualityWarnings;
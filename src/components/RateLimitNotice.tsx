@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from "react";
+import { FiClock, FiRefreshCw } from "react-icons/fi";
+
+export interface RateLimitNoticeProps {
+  retryAt: number | null;
+  onRetry: () => void;
+  onDismiss: () => void;
+}
+
+const RateLimitNotice: React.FC<RateLimitNoticeProps> = ({
+  retryAt,
+  onRetry,
+  onDismiss,
+}) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!retryAt) return;
+    setNow(Date.now());
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [retryAt]);
+
+  if (!retryAt) return null;
+
+  const secondsLeft = Math.max(0, Math.ceil((retryAt - now) / 1000));
+
+  return (
+    <div className="bg-amber-900/30 backdrop-blur-sm border border-amber-600/50 rounded-lg p-4 sm:p-6 scale-in">
+      <div className="flex items-start gap-3">
+        <FiClock className="text-2xl text-amber-400" />
+        <div>
+          <h4 className="font-semibold text-amber-200 mb-2">
+            Slow down a little
+          </h4>
+          <p className="text-amber-300 text-sm sm:text-base">
+            {secondsLeft > 0
+              ? `You've sent a lot of photos in a short time. You can try again in ${secondsLeft} second${secondsLeft === 1 ? "" : "s"}.`
+              : "You can try again now."}
+          </p>
+          <div className="mt-3 flex gap-2">
+            <button
+              onClick={onRetry}
+              disabled={secondsLeft > 0}
+              className="px-3 py-1 bg-amber-700/60 hover:bg-amber-600/60 disabled:opacity-50 disabled:cursor-not-allowed text-amber-100 rounded text-sm transition-colors cursor-pointer flex items-center gap-1"
+            >
+              <FiRefreshCw /> Try again
+            </button>
+            <button
+              onClick={onDismiss}
+              className="px-3 py-1 bg-amber-800/50 hover:bg-amber-700/50 text-amber-200 rounded text-sm transition-colors cursor-pointer"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RateLimitNotice;
@@ -0,0 +1,120 @@
+import React, { useState } from "react";
+import { FiShare2 } from "react-icons/fi";
+import { AgeDetectionResult } from "@/types";
+import { downloadFile } from "@/lib/export";
+import { cardDataFromResult, toCardQuery } from "@/lib/shareCard";
+import { ShareFaceMode, renderShareFace } from "@/lib/shareFace";
+
+type ShareButtonProps = {
+  result: AgeDetectionResult;
+  // Preview the face boxes were measured on
+  imageUrl: string;
+  activeFace: number | null;
+};
+
+const FACE_OPTIONS: { value: ShareFaceMode; label: string }[] = [
+  { value: "none", label: "No photo" },
+  { value: "blurred", label: "Blurred face" },
+  { value: "face", label: "Face" },
+];
+
+const ShareButton: React.FC<ShareButtonProps> = ({
+  result,
+  imageUrl,
+  activeFace,
+}) => {
+  const [faceMode, setFaceMode] = useState<ShareFaceMode>("none");
+  const [isSharing, setIsSharing] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const faceIndex =
+    activeFace !== null && result.result?.faces[activeFace] ? activeFace : null;
+  const data = cardDataFromResult(result, faceIndex);
+  if (!data) return null;
+
+  const share = async () => {
+    setIsSharing(true);
+    setStatus(null);
+
+    try {
+      const faces = result.result?.faces ?? [];
+      const face = await renderShareFace(
+        imageUrl,
+        faces[faceIndex ?? 0]?.bbox ?? null,
+        faceMode
+      );
+
+      const query = toCardQuery(data);
+      const formData = new FormData();
+      new URLSearchParams(query).forEach((value, key) =>
+        formData.append(key, value)
+      );
+      if (face) formData.append("face", face, "face.jpg");
+
+      const response = await fetch("/api/card", {
+        method: "POST",
+        body: formData,
+      });
+      if (!response.ok) throw new Error("Could not create the result card");
+
+      const card = new File([await response.blob()], "age-result.png", {
+        type: "image/png",
+      });
+      const url = `${window.location.origin}/share?${query}`;
+      const text = `My estimated age is ${data.age}`;
+
+      if (navigator.canShare?.({ files: [card] })) {
+        await navigator.share({
+          files: [card],
+          title: "Age result",
+          text,
+          url,
+        });
+        return;
+      }
+
+      downloadFile(card, card.name, card.type);
+      try {
+        await navigator.clipboard.writeText(url);
+        setStatus("Card downloaded, share link copied");
+      } catch {
+        setStatus("Card downloaded");
+      }
+    } catch (error) {
+      // Closing the share sheet isn't a failure
+      if (error instanceof DOMException && error.name === "AbortError") return;
+      setStatus(
+        error instanceof Error ? error.message : "Could not share the result"
+      );
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={faceMode}
+        onChange={(e) => setFaceMode(e.target.value as ShareFaceMode)}
+        aria-label="Photo on the card"
+        className="px-2 py-1 bg-slate-800 border border-slate-700 text-slate-200 rounded text-sm"
+      >
+        {FACE_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={share}
+        disabled={isSharing}
+        className="px-3 py-1 bg-emerald-700/80 hover:bg-emerald-600 text-white rounded text-sm transition-colors cursor-pointer flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <FiShare2 /> {isSharing ? "Creating card..." : "Share"}
+      </button>
+      {status && <span className="text-xs text-slate-400">{status}</span>}
+    </div>
+  );
+};
+
+export default ShareButton;
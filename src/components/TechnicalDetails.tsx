@@ -1,10 +1,6 @@
 import React from "react";
 import { FiSettings } from "react-icons/fi";
-
-type ModelInfo = {
-  range_margin?: number;
-  input_size?: string | number;
-};
+import { ModelInfo } from "@/types";
 
 type TechnicalDetailsProps = {
   timestamp: string | number | Date;
@@ -27,11 +23,15 @@ const TechnicalDetails: React.FC<TechnicalDetailsProps> = ({
       </div>
       <div>
         <div className="font-medium text-slate-300">Range Margin</div>
-        <div>±{modelInfo?.range_margin} years</div>
+        <div>
+          {modelInfo?.range_margin != null
+            ? `±${modelInfo.range_margin} years`
+            : "Unknown"}
+        </div>
       </div>
       <div>
         <div className="font-medium text-slate-300">Model Input</div>
-        <div>{modelInfo?.input_size}</div>
+        <div>{modelInfo?.input_size ?? "Unknown"}</div>
       </div>
     </div>
   </div>
@@ -1,7 +1,23 @@
-import { FiCheckCircle } from "react-icons/fi";
+import { FiAlertTriangle, FiCheckCircle } from "react-icons/fi";
 import { HiOutlineLightBulb } from "react-icons/hi";
+import { QualityIssueCode } from "@/types";
 
-export default function TipsSection() {
+export interface TipsSectionProps {
+  // Issues found in the current photo, their tips are highlighted
+  highlighted?: QualityIssueCode[];
+}
+
+const TIPS: { text: string; issues: QualityIssueCode[] }[] = [
+  { text: "Use a clear and sharp photo", issues: ["blurry", "low_resolution"] },
+  { text: "Make sure the face is clearly visible", issues: ["face_too_small"] },
+  {
+    text: "Avoid photos that are too dark or overexposed",
+    issues: ["too_dark", "too_bright"],
+  },
+  { text: "Frontal photos give the best results", issues: [] },
+];
+
+export default function TipsSection({ highlighted = [] }: TipsSectionProps) {
   return (
     <div className="mt-12 bg-slate-900/40 backdrop-blur-sm rounded-xl p-6 border border-slate-700/50">
       <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
@@ -9,22 +25,22 @@ export default function TipsSection() {
         Tips for Best Results
       </h3>
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm text-slate-300">
-        <div className="flex items-start gap-2">
-          <FiCheckCircle className="text-emerald-400 mt-0.5" />
-          <span>Use a clear and sharp photo</span>
-        </div>
-        <div className="flex items-start gap-2">
-          <FiCheckCircle className="text-emerald-400 mt-0.5" />
-          <span>Make sure the face is clearly visible</span>
-        </div>
-        <div className="flex items-start gap-2">
-          <FiCheckCircle className="text-emerald-400 mt-0.5" />
-          <span>Avoid photos that are too dark</span>
-        </div>
-        <div className="flex items-start gap-2">
-          <FiCheckCircle className="text-emerald-400 mt-0.5" />
-          <span>Frontal photos give the best results</span>
-        </div>
+        {TIPS.map((tip) =>
+          tip.issues.some((issue) => highlighted.includes(issue)) ? (
+            <div
+              key={tip.text}
+              className="flex items-start gap-2 text-amber-200 font-medium"
+            >
+              <FiAlertTriangle className="text-amber-400 mt-0.5" />
+              <span>{tip.text}</span>
+            </div>
+          ) : (
+            <div key={tip.text} className="flex items-start gap-2">
+              <FiCheckCircle className="text-emerald-400 mt-0.5" />
+              <span>{tip.text}</span>
+            </div>
+          )
+        )}
       </div>
     </div>
   );
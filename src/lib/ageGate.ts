@@ -0,0 +1,64 @@
+import {
+  AgeDetectionResult,
+  AgeGateDecision,
+  AgeGatePolicy,
+  AgeGateReason,
+  AgeGateStatus,
+} from "@/types";
+import { AGE_GATE_CONFIG } from "./config";
+
+export function getAgeGatePolicy(threshold: number): AgeGatePolicy {
+  return {
+    threshold,
+    buffer_years: AGE_GATE_CONFIG.BUFFER_YEARS,
+    min_confidence: AGE_GATE_CONFIG.MIN_CONFIDENCE,
+  };
+}
+
+/**
+ * Decides an age gate from one detection. A pass needs a single, confident
+ * face whose whole estimated range clears the threshold plus the buffer; a
+ * fail needs the whole range below the threshold. Everything in between,
+ * and anything the estimate can't vouch for, goes to a person to review.
+ */
+export function decideAgeGate(
+  detection: AgeDetectionResult,
+  policy: AgeGatePolicy
+): AgeGateDecision {
+  const estimate = detection.result;
+  const decide = (
+    status: AgeGateStatus,
+    reason: AgeGateReason
+  ): AgeGateDecision => ({
+    status,
+    reason,
+    policy,
+    age: estimate?.age ?? null,
+    age_min: estimate?.age_min ?? null,
+    age_max: estimate?.age_max ?? null,
+    confidence: estimate?.confidence ?? null,
+  });
+
+  if (!estimate || estimate.face_detected === false) {
+    return decide("needs_review", "no_face");
+  }
+  const facesCount = estimate.faces_count ?? estimate.faces.length;
+  if (facesCount > 1) return decide("needs_review", "multiple_faces");
+
+  if (
+    estimate.confidence === null ||
+    estimate.confidence < policy.min_confidence
+  ) {
+    return decide("needs_review", "low_confidence");
+  }
+
+  // Without a reported range the point estimate is both ends of it
+  const lowest = estimate.age_min ?? estimate.age;
+  const highest = estimate.age_max ?? estimate.age;
+
+  if (lowest >= policy.threshold + policy.buffer_years) {
+    return decide("pass", "above_threshold");
+  }
+  if (highest < policy.threshold) return decide("fail", "below_threshold");
+  return decide("needs_review", "within_buffer");
+}
@@ -0,0 +1,205 @@
+/**
+ * Typed client for the detector API, used by the app itself and importable
+ * on its own by other callers:
+ *
+ *   const result = await detectAge(file, { timeoutMs: 20000 });
+ *
+ * Failures are thrown as a `DetectAgeError`: a RateLimitError for 429s,
+ * an ApiClientError with a `code` for everything else.
+ */
+import {
+  AgeDetectionResult,
+  AgeGateDecision,
+  AgeGateOptions,
+  AgeGateResponse,
+  HealthReport,
+  JobReport,
+  ReadinessReport,
+} from "@/types";
+import { ApiClientError, RateLimitError } from "../errors";
+import { requestJson, requestWithEvents } from "./request";
+import {
+  BatchOptions,
+  BatchOutcome,
+  ClientOptions,
+  DetectAgeError,
+} from "./types";
+
+export { ApiClientError, RateLimitError };
+export type { ApiClientErrorCode } from "../errors";
+export type {
+  BatchOptions,
+  BatchOutcome,
+  ClientOptions,
+  DetectAgeError,
+  RequestProgress,
+} from "./types";
+
+const DEFAULT_BATCH_CONCURRENCY = 3;
+
+// Blobs without a name still need one for the multipart field
+function appendImage(formData: FormData, image: Blob) {
+  formData.append("image", image, image instanceof File ? image.name : "image");
+}
+
+function imageForm(image: Blob, fields: Record<string, string> = {}) {
+  const formData = new FormData();
+  appendImage(formData, image);
+  for (const [name, value] of Object.entries(fields)) {
+    formData.append(name, value);
+  }
+  return formData;
+}
+
+function isDetectAgeError(error: unknown): error is DetectAgeError {
+  return error instanceof ApiClientError || error instanceof RateLimitError;
+}
+
+/**
+ * Estimates the age of the faces in one image. With `stream`, `onProgress`
+ * follows the server through received, validated, forwarded and
+ * inference_started.
+ */
+export async function detectAge(
+  image: Blob,
+  options: ClientOptions = {}
+): Promise<AgeDetectionResult> {
+  const data = options.stream
+    ? await requestWithEvents<AgeDetectionResult>(
+        "/api/v1/detect",
+        options,
+        imageForm(image)
+      )
+    : await requestJson<AgeDetectionResult>("/api/v1/detect", options, {
+        body: imageForm(image),
+      });
+
+  if (!data.success || !data.result) {
+    throw new ApiClientError(
+      "INVALID_RESPONSE",
+      data.error || "Failed to detect age"
+    );
+  }
+  return data;
+}
+
+/**
+ * Runs `detectAge` over several images, a few at a time. Never rejects
+ * because of one image: each gets an outcome, in the order given. Aborting
+ * `signal` stops images that haven't started.
+ */
+export async function detectAgeBatch(
+  images: Blob[],
+  options: BatchOptions = {}
+): Promise<BatchOutcome[]> {
+  const { concurrency, onItem, onProgress, ...requestOptions } = options;
+  const outcomes: BatchOutcome[] = new Array(images.length);
+  let next = 0;
+  let completed = 0;
+
+  const worker = async () => {
+    while (next < images.length) {
+      const index = next++;
+      let outcome: BatchOutcome;
+      try {
+        if (requestOptions.signal?.aborted) {
+          throw new ApiClientError("ABORTED", "The request was cancelled");
+        }
+        const result = await detectAge(images[index], requestOptions);
+        outcome = { status: "fulfilled", result };
+      } catch (error) {
+        if (!isDetectAgeError(error)) throw error;
+        outcome = { status: "rejected", error };
+      }
+
+      outcomes[index] = outcome;
+      completed++;
+      onItem?.(index, outcome);
+      onProgress?.({ completed, total: images.length });
+    }
+  };
+
+  const workers = Math.max(
+    1,
+    Math.min(concurrency ?? DEFAULT_BATCH_CONCURRENCY, images.length)
+  );
+  await Promise.all(Array.from({ length: workers }, worker));
+  return outcomes;
+}
+
+// Pass, fail or needs review against one of the server's thresholds
+export async function checkAgeGate(
+  image: Blob,
+  threshold: number,
+  options: ClientOptions = {}
+): Promise<AgeGateDecision> {
+  const data = await requestJson<AgeGateResponse>("/api/age-gate", options, {
+    body: imageForm(image, { threshold: String(threshold) }),
+  });
+
+  if (!data.decision) {
+    throw new ApiClientError(
+      "INVALID_RESPONSE",
+      data.error || "The age check returned no decision"
+    );
+  }
+  return data.decision;
+}
+
+/**
+ * Queues several images as one background job on the server and resolves
+ * with its first report; poll `getJob` until the status is `completed`.
+ */
+export function submitJob(
+  images: Blob[],
+  options: ClientOptions = {}
+): Promise<JobReport> {
+  const formData = new FormData();
+  for (const image of images) appendImage(formData, image);
+  return requestJson<JobReport>("/api/jobs", options, { body: formData });
+}
+
+export function getJob(
+  id: string,
+  options: ClientOptions = {}
+): Promise<JobReport> {
+  return requestJson<JobReport>(`/api/jobs/${encodeURIComponent(id)}`, options);
+}
+
+// Stops the job's remaining images; finished results are kept
+export function cancelJob(
+  id: string,
+  options: ClientOptions = {}
+): Promise<JobReport> {
+  return requestJson<JobReport>(
+    `/api/jobs/${encodeURIComponent(id)}`,
+    options,
+    { method: "DELETE" }
+  );
+}
+
+// Thresholds and policy the age check accepts
+export function getAgeGateOptions(
+  options: ClientOptions = {}
+): Promise<AgeGateOptions> {
+  return requestJson<AgeGateOptions>("/api/age-gate", options);
+}
+
+// Liveness of the app itself
+export function checkHealth(
+  options: ClientOptions = {}
+): Promise<HealthReport> {
+  return requestJson<HealthReport>("/api/health", options);
+}
+
+// Whether the inference backend can take requests; resolves when it can't too
+export function checkReadiness(
+  options: ClientOptions = {}
+): Promise<ReadinessReport> {
+  return requestJson<ReadinessReport>(
+    "/api/ready",
+    options,
+    {},
+    (response) => response.ok || response.status === 503
+  );
+}
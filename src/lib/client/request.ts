@@ -0,0 +1,336 @@
+import { ApiClientError, RateLimitError } from "../errors";
+import { ClientOptions, RequestProgress } from "./types";
+
+// Matches the server's own inference timeout plus time for the upload
+export const DEFAULT_TIMEOUT_MS = 45000;
+
+interface ErrorBody {
+  error?: string;
+  message?: string;
+  details?: string;
+  code?: string;
+  field?: string;
+}
+
+// Headers sent with every request, the API key for server-to-server callers
+function buildHeaders(options: ClientOptions): Record<string, string> {
+  return options.apiKey ? { "X-API-Key": options.apiKey } : {};
+}
+
+/**
+ * One signal for the caller's `signal` and the timeout. `timedOut` tells
+ * the two apart once the request has been aborted.
+ */
+function linkSignals(options: ClientOptions) {
+  const controller = new AbortController();
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  let timedOut = false;
+
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+
+  if (options.signal?.aborted) controller.abort();
+  options.signal?.addEventListener("abort", onAbort);
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    dispose: () => {
+      clearTimeout(timeoutId);
+      options.signal?.removeEventListener("abort", onAbort);
+    },
+  };
+}
+
+// fetch has no upload progress, so browsers that want it go through XHR
+function sendWithProgress(
+  url: string,
+  body: FormData,
+  headers: Record<string, string>,
+  signal: AbortSignal,
+  onProgress: (progress: RequestProgress) => void
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", url);
+    xhr.responseType = "blob";
+    for (const [name, value] of Object.entries(headers)) {
+      xhr.setRequestHeader(name, value);
+    }
+
+    xhr.upload.onprogress = (event) =>
+      onProgress({
+        stage: "uploading",
+        loaded: event.loaded,
+        total: event.lengthComputable ? event.total : null,
+      });
+    xhr.upload.onload = () => onProgress({ stage: "processing" });
+
+    xhr.onload = () => {
+      const responseHeaders = new Headers();
+      for (const line of xhr.getAllResponseHeaders().trim().split(/\r?\n/)) {
+        const separator = line.indexOf(":");
+        if (separator > 0) {
+          responseHeaders.append(
+            line.slice(0, separator).trim(),
+            line.slice(separator + 1).trim()
+          );
+        }
+      }
+      resolve(
+        new Response(xhr.response, {
+          status: xhr.status,
+          headers: responseHeaders,
+        })
+      );
+    };
+    xhr.onerror = () => reject(new TypeError("Failed to fetch"));
+    xhr.onabort = () => reject(new DOMException("Aborted", "AbortError"));
+
+    signal.addEventListener("abort", () => xhr.abort());
+    xhr.send(body);
+  });
+}
+
+function errorFromResponse(
+  status: number,
+  body: ErrorBody | null,
+  retryAfterHeader: string | null = null
+) {
+  if (status === 429) {
+    const retryAfter = Number(retryAfterHeader);
+    return new RateLimitError(
+      Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : 1
+    );
+  }
+
+  const message =
+    body?.error || body?.message || `HTTP error! status: ${status}`;
+  const details = { apiCode: body?.code, field: body?.field };
+
+  if (status === 401 || status === 403) {
+    return new ApiClientError(
+      "UNAUTHORIZED",
+      body?.message || message,
+      status,
+      details
+    );
+  }
+  if (status === 408) {
+    return new ApiClientError("TIMEOUT", message, status, details);
+  }
+  if (status === 503) {
+    return new ApiClientError("SERVICE_UNAVAILABLE", message, status, details);
+  }
+  if (status >= 400 && status < 500) {
+    return new ApiClientError("BAD_REQUEST", message, status, details);
+  }
+  return new ApiClientError("SERVER_ERROR", message, status, details);
+}
+
+/**
+ * Calls an API route and parses its JSON body. Failures are thrown as a
+ * RateLimitError or an ApiClientError; `accept` decides which statuses
+ * count as an answer, for routes like /api/ready that report through 503.
+ */
+export async function requestJson<T>(
+  path: string,
+  options: ClientOptions,
+  init: { method?: "GET" | "POST" | "DELETE"; body?: FormData } = {},
+  accept: (response: Response) => boolean = (response) => response.ok
+): Promise<T> {
+  const url = `${options.baseUrl ?? ""}${path}`;
+  const headers = buildHeaders(options);
+  const { signal, timedOut, dispose } = linkSignals(options);
+  const onProgress = options.onProgress;
+
+  let response: Response;
+  let body: unknown;
+  try {
+    if (init.body && onProgress && typeof XMLHttpRequest !== "undefined") {
+      response = await sendWithProgress(
+        url,
+        init.body,
+        headers,
+        signal,
+        onProgress
+      );
+    } else {
+      onProgress?.({ stage: "processing" });
+      response = await fetch(url, {
+        method: init.method ?? (init.body ? "POST" : "GET"),
+        body: init.body,
+        headers,
+        signal,
+        cache: "no-store",
+      });
+    }
+    body = await response.json().catch(() => null);
+  } catch (error) {
+    throw toTransportError(error, timedOut());
+  } finally {
+    dispose();
+  }
+
+  return readAnswer<T>(response, body, accept, onProgress);
+}
+
+// fetch and XHR failures, told apart from answers the API gave
+function toTransportError(error: unknown, timedOut: boolean): ApiClientError {
+  if (error instanceof Error && error.name === "AbortError") {
+    return timedOut
+      ? new ApiClientError("TIMEOUT", "Request timeout. Please try again.")
+      : new ApiClientError("ABORTED", "The request was cancelled");
+  }
+  return new ApiClientError(
+    "NETWORK_ERROR",
+    error instanceof Error ? error.message : "Network request failed"
+  );
+}
+
+function readAnswer<T>(
+  response: Response,
+  body: unknown,
+  accept: (response: Response) => boolean,
+  onProgress: ClientOptions["onProgress"]
+): T {
+  if (!accept(response)) {
+    throw errorFromResponse(
+      response.status,
+      body as ErrorBody | null,
+      response.headers.get("Retry-After")
+    );
+  }
+  if (body === null || typeof body !== "object") {
+    throw new ApiClientError(
+      "INVALID_RESPONSE",
+      "The API answered with something other than JSON",
+      response.status
+    );
+  }
+
+  onProgress?.({ stage: "done" });
+  return body as T;
+}
+
+interface StreamEvent {
+  event: string;
+  data: string;
+}
+
+// Splits a Server-Sent Events body into events as the chunks arrive
+async function* readEvents(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<StreamEvent> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? "" : (blocks.pop() ?? "");
+      for (const block of blocks) {
+        let event = "message";
+        const data: string[] = [];
+        for (const line of block.split(/\r?\n/)) {
+          if (line.startsWith("event:")) event = line.slice(6).trim();
+          else if (line.startsWith("data:")) data.push(line.slice(5).trim());
+        }
+        if (data.length > 0) yield { event, data: data.join("\n") };
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * POSTs `body` asking for the server's progress stream and passes each
+ * stage on to `onProgress`. When the browser can't read a streamed body,
+ * or the server answers with plain JSON, this is the same as `requestJson`.
+ */
+export async function requestWithEvents<T>(
+  path: string,
+  options: ClientOptions,
+  body: FormData
+): Promise<T> {
+  if (
+    typeof ReadableStream === "undefined" ||
+    typeof TextDecoder === "undefined"
+  ) {
+    return requestJson<T>(path, options, { body });
+  }
+
+  const url = `${options.baseUrl ?? ""}${path}`;
+  const headers = { ...buildHeaders(options), Accept: "text/event-stream" };
+  const { signal, timedOut, dispose } = linkSignals(options);
+  const onProgress = options.onProgress;
+
+  try {
+    onProgress?.({ stage: "processing" });
+    const response = await fetch(url, {
+      method: "POST",
+      body,
+      headers,
+      signal,
+      cache: "no-store",
+    });
+
+    const contentType = response.headers.get("content-type") ?? "";
+    if (!contentType.startsWith("text/event-stream") || !response.body) {
+      const answer = await response.json().catch(() => null);
+      return readAnswer<T>(
+        response,
+        answer,
+        (response) => response.ok,
+        onProgress
+      );
+    }
+
+    for await (const { event, data } of readEvents(response.body)) {
+      let payload: unknown;
+      try {
+        payload = JSON.parse(data);
+      } catch {
+        continue;
+      }
+
+      switch (event) {
+        case "received":
+        case "validated":
+        case "forwarded":
+        case "inference_started":
+          onProgress?.({ stage: event });
+          break;
+        case "result":
+          onProgress?.({ stage: "done" });
+          return payload as T;
+        case "error": {
+          const error = payload as ErrorBody & { status?: number };
+          throw errorFromResponse(error.status ?? 500, error);
+        }
+      }
+    }
+
+    throw new ApiClientError(
+      "INVALID_RESPONSE",
+      "The progress stream ended without a result",
+      response.status
+    );
+  } catch (error) {
+    if (error instanceof ApiClientError || error instanceof RateLimitError) {
+      throw error;
+    }
+    throw toTransportError(error, timedOut());
+  } finally {
+    dispose();
+  }
+}
@@ -0,0 +1,43 @@
+import { AgeDetectionResult, DetectionStage } from "@/types";
+import { ApiClientError, RateLimitError } from "../errors";
+
+// Everything the client can throw
+export type DetectAgeError = ApiClientError | RateLimitError;
+
+export type RequestProgress =
+  // Bytes sent so far; `total` is null when the browser can't tell
+  | { stage: "uploading"; loaded: number; total: number | null }
+  // Upload finished, waiting for the answer
+  | { stage: "processing" }
+  // Reported by the server when the request asked for the progress stream
+  | { stage: DetectionStage }
+  | { stage: "done" };
+
+export interface ClientOptions {
+  // Origin of the API, empty for the page's own origin
+  baseUrl?: string;
+  // Sent as X-API-Key, for callers without an allowed origin
+  apiKey?: string;
+  signal?: AbortSignal;
+  // Whole request, upload included; defaults to 45 seconds
+  timeoutMs?: number;
+  onProgress?: (progress: RequestProgress) => void;
+  // Ask detectAge for the server's progress stream; `onProgress` then
+  // reports each server side stage instead of upload progress
+  stream?: boolean;
+}
+
+export type BatchOutcome =
+  | { status: "fulfilled"; result: AgeDetectionResult }
+  | { status: "rejected"; error: DetectAgeError };
+
+export interface BatchOptions extends Omit<
+  ClientOptions,
+  "onProgress" | "stream"
+> {
+  // Requests in flight at once, default 3
+  concurrency?: number;
+  // Called as each image finishes, in completion order
+  onItem?: (index: number, outcome: BatchOutcome) => void;
+  onProgress?: (progress: { completed: number; total: number }) => void;
+}
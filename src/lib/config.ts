@@ -0,0 +1,292 @@
+export type InferenceBackend = "python" | "http-json" | "onnx" | "mock";
+
+export type MockScenario =
+  | "single-face"
+  | "multiple-faces"
+  | "no-face"
+  | "slow"
+  | "server-error"
+  | "malformed";
+
+const MOCK_SCENARIOS: MockScenario[] = [
+  "single-face",
+  "multiple-faces",
+  "no-face",
+  "slow",
+  "server-error",
+  "malformed",
+];
+
+function getDefaultPythonUrl(): string {
+  if (process.env.NODE_ENV === "production") {
+    // In production, use environment variable or default production URL
+    return "http://localhost:6969/api/detect-age";
+  }
+  // In development
+  return "http://localhost:8000/api/detect-age";
+}
+
+function parseBackend(value: string | undefined): InferenceBackend {
+  if (value === "http-json" || value === "onnx" || value === "mock") {
+    return value;
+  }
+  if (value && value !== "python") {
+    console.warn(`Unknown INFERENCE_BACKEND "${value}", using "python"`);
+  }
+  return "python";
+}
+
+function parseMockScenario(value: string | undefined): MockScenario {
+  const scenario = MOCK_SCENARIOS.find((candidate) => candidate === value);
+  if (!scenario && value) {
+    console.warn(`Unknown MOCK_SCENARIO "${value}", using "single-face"`);
+  }
+  return scenario ?? "single-face";
+}
+
+// Health endpoints default to `/health` on the same host as the API
+function deriveHealthUrl(apiUrl: string): string {
+  try {
+    return new URL("/health", apiUrl).toString();
+  } catch {
+    return "";
+  }
+}
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && Number.isFinite(parsed) ? parsed : fallback;
+}
+
+const PYTHON_API_URL = process.env.PYTHON_API_URL || getDefaultPythonUrl();
+const INFERENCE_HTTP_URL = process.env.INFERENCE_HTTP_URL || "";
+
+// Inference backend selection, read once per server process
+export const INFERENCE_CONFIG = {
+  BACKEND: parseBackend(process.env.INFERENCE_BACKEND),
+  REQUEST_TIMEOUT_MS: parseNumber(process.env.INFERENCE_TIMEOUT_MS, 30000),
+  PYTHON_API_URL,
+  PYTHON_HEALTH_URL:
+    process.env.PYTHON_HEALTH_URL || deriveHealthUrl(PYTHON_API_URL),
+  HTTP_JSON: {
+    URL: INFERENCE_HTTP_URL,
+    HEALTH_URL:
+      process.env.INFERENCE_HTTP_HEALTH_URL ||
+      deriveHealthUrl(INFERENCE_HTTP_URL),
+    API_KEY: process.env.INFERENCE_HTTP_API_KEY || "",
+  },
+  ONNX: {
+    MODEL_PATH: process.env.ONNX_MODEL_PATH || "",
+    INPUT_SIZE: parseNumber(process.env.ONNX_INPUT_SIZE, 224),
+    // "nchw" for PyTorch exports, "nhwc" for Keras/TensorFlow exports
+    INPUT_LAYOUT: process.env.ONNX_INPUT_LAYOUT === "nhwc" ? "nhwc" : "nchw",
+    SCALING_FACTOR: parseNumber(process.env.ONNX_SCALING_FACTOR, 1),
+  },
+  MOCK: {
+    SCENARIO: parseMockScenario(process.env.MOCK_SCENARIO),
+    DELAY_MS: parseNumber(process.env.MOCK_DELAY_MS, 5000),
+  },
+} as const;
+
+function parseList(value: string | undefined, fallback: string[]): string[] {
+  if (!value) return fallback;
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// Origins are compared exactly, so normalize them the same way browsers do
+function parseOrigins(values: string[], variable: string): string[] {
+  return values.flatMap((value) => {
+    try {
+      return [new URL(value).origin];
+    } catch {
+      console.warn(`Ignoring invalid origin in ${variable}: "${value}"`);
+      return [];
+    }
+  });
+}
+
+// Access control for /api routes, used by the middleware
+export const ACCESS_CONFIG = {
+  ALLOWED_ORIGINS: parseOrigins(
+    parseList(process.env.ALLOWED_ORIGINS, [
+      "https://age-detection.kdx.web.id",
+      "http://localhost:3000",
+    ]),
+    "ALLOWED_ORIGINS"
+  ),
+  // SHA-256 hex digests of the accepted API keys, never the keys themselves
+  API_KEY_HASHES: parseList(process.env.API_KEY_HASHES, []).map((hash) =>
+    hash.toLowerCase()
+  ),
+  CORS_MAX_AGE: parseNumber(process.env.CORS_MAX_AGE, 600),
+};
+
+// Set by the middleware on requests it lets through: `key:<hash>` for API
+// key callers, `ip:<address>` for the rest. Whatever the client sent is
+// replaced
+export const CLIENT_KEY_HEADER = "x-client-key";
+
+// Token bucket limits for /api routes, keyed by API key or client IP
+export const RATE_LIMIT_CONFIG = {
+  ENABLED: process.env.RATE_LIMIT_ENABLED !== "false",
+  STORE: process.env.RATE_LIMIT_STORE || "memory",
+  // Burst size: requests a client can make back to back
+  CAPACITY: parseNumber(process.env.RATE_LIMIT_CAPACITY, 10),
+  // Sustained rate: tokens added back per minute
+  REFILL_PER_MINUTE: parseNumber(process.env.RATE_LIMIT_REFILL_PER_MINUTE, 10),
+  // Proxies in front of the app that append to X-Forwarded-For. Next.js only
+  // fills the header in when it is missing, so it doesn't count as one
+  TRUSTED_PROXY_COUNT: parseNumber(process.env.TRUSTED_PROXY_COUNT, 1),
+};
+
+// Limits enforced on uploaded images before they reach the backend
+export const IMAGE_VALIDATION_CONFIG = {
+  MIN_DIMENSION: parseNumber(process.env.IMAGE_MIN_DIMENSION, 64),
+  MAX_DIMENSION: parseNumber(process.env.IMAGE_MAX_DIMENSION, 8192),
+  // Decoded size guard against decompression bombs (40 MP ~ 160MB as RGBA)
+  MAX_PIXELS: parseNumber(process.env.IMAGE_MAX_PIXELS, 40_000_000),
+  MAX_FRAMES: parseNumber(process.env.IMAGE_MAX_FRAMES, 1),
+};
+
+// Fetching images by URL for JSON requests to /api/v1/detect
+export const IMAGE_FETCH_CONFIG = {
+  ALLOWED_SCHEMES: parseList(process.env.IMAGE_URL_SCHEMES, ["https"]).map(
+    (scheme) => scheme.toLowerCase().replace(/:$/, "")
+  ),
+  TIMEOUT_MS: parseNumber(process.env.IMAGE_URL_TIMEOUT_MS, 5000),
+  MAX_BYTES: parseNumber(process.env.IMAGE_URL_MAX_BYTES, 10 * 1024 * 1024),
+  MAX_REDIRECTS: parseNumber(process.env.IMAGE_URL_MAX_REDIRECTS, 3),
+};
+
+// Retries and circuit breaking around inference backend calls
+export const RESILIENCE_CONFIG = {
+  MAX_RETRIES: parseNumber(process.env.BACKEND_MAX_RETRIES, 2),
+  RETRY_BASE_DELAY_MS: parseNumber(
+    process.env.BACKEND_RETRY_BASE_DELAY_MS,
+    250
+  ),
+  RETRY_MAX_DELAY_MS: parseNumber(process.env.BACKEND_RETRY_MAX_DELAY_MS, 4000),
+  // Consecutive backend failures before the breaker opens
+  BREAKER_FAILURE_THRESHOLD: parseNumber(
+    process.env.BREAKER_FAILURE_THRESHOLD,
+    5
+  ),
+  // How long the breaker fails fast before letting a probe request through
+  BREAKER_OPEN_MS: parseNumber(process.env.BREAKER_OPEN_MS, 30000),
+};
+
+// Readiness probing for /api/ready
+export const HEALTH_CONFIG = {
+  PROBE_TIMEOUT_MS: parseNumber(process.env.READY_PROBE_TIMEOUT_MS, 3000),
+  // Probe results are reused for this long so polling stays cheap
+  PROBE_CACHE_MS: parseNumber(process.env.READY_PROBE_CACHE_MS, 5000),
+};
+
+// Result cards and share links
+export const SHARE_CONFIG = {
+  // Public address of the app, used for absolute Open Graph image links
+  SITE_URL: process.env.SITE_URL || "https://age-detection.kdx.web.id",
+  // Largest face image accepted for a result card
+  MAX_FACE_BYTES: parseNumber(
+    process.env.SHARE_MAX_FACE_BYTES,
+    2 * 1024 * 1024
+  ),
+};
+
+// Decision policy for /api/age-gate
+export const AGE_GATE_CONFIG = {
+  // Thresholds callers may ask for, the first one is the default
+  THRESHOLDS: parseList(process.env.AGE_GATE_THRESHOLDS, ["18", "21"])
+    .map(Number)
+    .filter((threshold) => Number.isInteger(threshold) && threshold > 0),
+  // A pass needs the whole estimated range this many years above the threshold
+  BUFFER_YEARS: parseNumber(process.env.AGE_GATE_BUFFER_YEARS, 3),
+  // Less confident estimates always go to review
+  MIN_CONFIDENCE: parseNumber(process.env.AGE_GATE_MIN_CONFIDENCE, 0.6),
+};
+
+// Partner sites allowed to frame /embed and receive its messages. Empty
+// turns embedding off
+export const EMBED_CONFIG = {
+  ALLOWED_ORIGINS: parseOrigins(
+    parseList(process.env.EMBED_ALLOWED_ORIGINS, []),
+    "EMBED_ALLOWED_ORIGINS"
+  ),
+};
+
+// Background detection jobs under /api/jobs
+export const JOB_CONFIG = {
+  // Images sent to the inference backend at once, across all jobs
+  CONCURRENCY: parseNumber(process.env.JOB_CONCURRENCY, 2),
+  MAX_ITEMS: parseNumber(process.env.JOB_MAX_ITEMS, 500),
+  // Images waiting across all jobs; new jobs are refused past this
+  MAX_QUEUED_ITEMS: parseNumber(process.env.JOB_MAX_QUEUED_ITEMS, 2000),
+  // Largest upload for one job
+  MAX_BYTES: parseNumber(process.env.JOB_MAX_BYTES, 200 * 1024 * 1024),
+  // Memory held by uploads being read and images waiting, across all jobs
+  MAX_QUEUED_BYTES: parseNumber(
+    process.env.JOB_MAX_QUEUED_BYTES,
+    500 * 1024 * 1024
+  ),
+  // How long a finished job can still be read
+  TTL_MS: parseNumber(process.env.JOB_TTL_MS, 60 * 60 * 1000),
+};
+
+function isValidUrl(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Configuration problems that would stop the service from answering requests
+export function getConfigIssues(): string[] {
+  const issues: string[] = [];
+
+  switch (INFERENCE_CONFIG.BACKEND) {
+    case "python":
+      if (!isValidUrl(INFERENCE_CONFIG.PYTHON_API_URL)) {
+        issues.push("PYTHON_API_URL is not a valid URL");
+      }
+      break;
+    case "http-json":
+      if (!isValidUrl(INFERENCE_CONFIG.HTTP_JSON.URL)) {
+        issues.push("INFERENCE_HTTP_URL is missing or not a valid URL");
+      }
+      break;
+    case "onnx":
+      if (!INFERENCE_CONFIG.ONNX.MODEL_PATH) {
+        issues.push("ONNX_MODEL_PATH is not set");
+      }
+      break;
+  }
+
+  if (
+    ACCESS_CONFIG.ALLOWED_ORIGINS.length === 0 &&
+    ACCESS_CONFIG.API_KEY_HASHES.length === 0
+  ) {
+    issues.push("Neither ALLOWED_ORIGINS nor API_KEY_HASHES is configured");
+  }
+
+  if (
+    RATE_LIMIT_CONFIG.ENABLED &&
+    (RATE_LIMIT_CONFIG.CAPACITY < 1 || RATE_LIMIT_CONFIG.REFILL_PER_MINUTE <= 0)
+  ) {
+    issues.push("Rate limit capacity and refill rate must be positive");
+  }
+
+  if (AGE_GATE_CONFIG.THRESHOLDS.length === 0) {
+    issues.push("AGE_GATE_THRESHOLDS has no valid threshold");
+  }
+
+  if (JOB_CONFIG.CONCURRENCY < 1 || JOB_CONFIG.MAX_ITEMS < 1) {
+    issues.push("JOB_CONCURRENCY and JOB_MAX_ITEMS must be at least 1");
+  }
+
+  return issues;
+}
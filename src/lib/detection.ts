@@ -0,0 +1,497 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  AgeDetectionResult,
+  ApiErrorResponse,
+  DetectionFailure,
+  DetectionStage,
+  DetectResponse,
+  MetadataKind,
+} from "@/types";
+import { INFERENCE_CONFIG } from "./config";
+import {
+  CircuitOpenError,
+  ImageFetchError,
+  ImageValidationError,
+  InferenceBackendError,
+  InferenceTimeoutError,
+  JobError,
+  RequestValidationError,
+  ResponseNormalizationError,
+} from "./errors";
+import { validateImage } from "./imageValidation";
+import { scanImageMetadata } from "./imageMetadata";
+import { getInferenceAdapter } from "./inference";
+import { fetchImageFromUrl } from "./imageFetch";
+import { sniffImageFormat } from "./imageFormat";
+import {
+  MAX_REQUEST_BODY_SIZE,
+  detectJsonRequestSchema,
+  detectRequestSchema,
+  detectResponseSchema,
+} from "./schemas";
+
+export interface PreparedImage {
+  // Validated image with embedded metadata stripped, ready for the backend
+  image: File;
+  metadataRemoved: MetadataKind[];
+}
+
+// Maps the first schema failure onto the error the API reports for it
+function toRequestError(error: z.ZodError): RequestValidationError {
+  const issue = error.issues[0];
+  const field = issue.path.map(String).join(".") || undefined;
+
+  if (issue.code === "too_big" && field === "image_base64") {
+    return new RequestValidationError("FILE_TOO_LARGE", issue.message, field);
+  }
+  if (field === "image") {
+    switch (issue.code) {
+      case "too_big":
+        return new RequestValidationError(
+          "FILE_TOO_LARGE",
+          issue.message,
+          field
+        );
+      case "invalid_value":
+        return new RequestValidationError(
+          "UNSUPPORTED_TYPE",
+          issue.message,
+          field
+        );
+      default:
+        return new RequestValidationError(
+          "MISSING_IMAGE",
+          issue.message,
+          field
+        );
+    }
+  }
+  return new RequestValidationError("INVALID_FIELD", issue.message, field);
+}
+
+// Validates `input` against a request schema, throwing a RequestValidationError
+export function parseRequest<T extends z.ZodType>(
+  schema: T,
+  input: unknown
+): z.output<T> {
+  const parsed = schema.safeParse(input);
+  if (!parsed.success) throw toRequestError(parsed.error);
+  return parsed.data;
+}
+
+/**
+ * Wraps the body so reading fails as soon as it grows past `maxBytes`,
+ * whatever Content-Length claimed, and an oversized request is never
+ * buffered whole. `exceeded` tells that failure apart from a malformed body.
+ */
+function limitBody(request: Request, maxBytes: number) {
+  let exceeded = false;
+  let received = 0;
+  const body = request.body
+    ? new Response(
+        request.body.pipeThrough(
+          new TransformStream<Uint8Array, Uint8Array>({
+            transform(chunk, controller) {
+              received += chunk.byteLength;
+              if (received > maxBytes) {
+                exceeded = true;
+                controller.error(new Error("Request body too large"));
+                return;
+              }
+              controller.enqueue(chunk);
+            },
+          })
+        ),
+        { headers: request.headers }
+      )
+    : request;
+  return { body, exceeded: () => exceeded };
+}
+
+function bodyTooLarge(maxBytes: number) {
+  return new RequestValidationError(
+    "FILE_TOO_LARGE",
+    `The request body is larger than ${maxBytes} bytes`
+  );
+}
+
+// Parses a multipart body of at most `maxBytes`
+export async function readFormData(
+  request: Request,
+  maxBytes: number
+): Promise<FormData> {
+  const limited = limitBody(request, maxBytes);
+  try {
+    return await limited.body.formData();
+  } catch {
+    if (limited.exceeded()) throw bodyTooLarge(maxBytes);
+    throw new RequestValidationError(
+      "INVALID_BODY",
+      "The request body must be multipart/form-data"
+    );
+  }
+}
+
+// Parses a JSON body of at most `maxBytes`
+async function readJson(request: Request, maxBytes: number): Promise<unknown> {
+  const limited = limitBody(request, maxBytes);
+  try {
+    return await limited.body.json();
+  } catch {
+    if (limited.exceeded()) throw bodyTooLarge(maxBytes);
+    throw new RequestValidationError(
+      "INVALID_BODY",
+      "The request body is not valid JSON"
+    );
+  }
+}
+
+// Turns `image_base64` into a file; without a data URI the bytes give the type
+function decodeBase64Image(value: string): File {
+  const dataUri = value.match(/^data:([^;,]*)[^,]*;base64,/i);
+  const payload = (dataUri ? value.slice(dataUri[0].length) : value).replace(
+    /\s/g,
+    ""
+  );
+  if (!/^[A-Za-z0-9+/_-]*={0,2}$/.test(payload)) {
+    throw new RequestValidationError(
+      "INVALID_FIELD",
+      "image_base64 is not valid base64",
+      "image_base64"
+    );
+  }
+
+  const bytes = Buffer.from(payload, "base64");
+  const format = sniffImageFormat(bytes);
+  const type =
+    dataUri?.[1] || (format ? `image/${format}` : "application/octet-stream");
+  return new File([bytes], "image", { type });
+}
+
+/**
+ * Reads the image from a multipart upload or a JSON body with
+ * `image_base64` or `image_url`. Whatever arrives goes through
+ * `prepareUpload`, so every input gets the same checks.
+ */
+export async function readImageInput(
+  request: Request
+): Promise<FormDataEntryValue | null> {
+  const contentType = request.headers.get("content-type") ?? "";
+  if (!contentType.toLowerCase().startsWith("application/json")) {
+    return (await readFormData(request, MAX_REQUEST_BODY_SIZE)).get("image");
+  }
+
+  const body = await readJson(request, MAX_REQUEST_BODY_SIZE);
+  const input = parseRequest(detectJsonRequestSchema, body);
+  if (input.image_base64 !== undefined) {
+    return decodeBase64Image(input.image_base64);
+  }
+  return fetchImageFromUrl(input.image_url as string);
+}
+
+/**
+ * Checks the `image` field of an upload and strips its metadata, so location
+ * and other embedded data never reach the backend.
+ */
+export async function prepareUpload(
+  file: FormDataEntryValue | null
+): Promise<PreparedImage> {
+  const { image } = parseRequest(detectRequestSchema, { image: file });
+
+  // Check the real content, the declared type is only a hint from the client
+  const bytes = await image.arrayBuffer();
+  const imageInfo = validateImage(bytes);
+
+  const scan = scanImageMetadata(new Uint8Array(bytes));
+  return {
+    image: new File([scan.bytes], image.name, { type: imageInfo.mimeType }),
+    metadataRemoved: scan.removed,
+  };
+}
+
+interface DetectionOptions {
+  // Stops the detection early, on top of the request timeout
+  signal?: AbortSignal;
+  onInferenceStarted?: () => void;
+}
+
+// Runs the configured inference backend, giving up after the request timeout
+export async function runDetection(
+  image: File,
+  { signal, onInferenceStarted }: DetectionOptions = {}
+): Promise<AgeDetectionResult> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(
+    () =>
+      controller.abort(
+        new InferenceTimeoutError(INFERENCE_CONFIG.REQUEST_TIMEOUT_MS)
+      ),
+    INFERENCE_CONFIG.REQUEST_TIMEOUT_MS
+  );
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) controller.abort(signal.reason);
+  signal?.addEventListener("abort", onAbort);
+
+  try {
+    return await getInferenceAdapter().detect(image, {
+      signal: controller.signal,
+      onInferenceStarted,
+    });
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Checks a backend result against the response schema the API documents.
+ * A backend answering `success: false` is a client problem (no face, an
+ * image it can't use), so its message is passed on as a 422.
+ */
+export function toDetectResponse(
+  result: AgeDetectionResult,
+  metadataRemoved: MetadataKind[]
+): DetectResponse {
+  if (!result.success) {
+    throw new InferenceBackendError(
+      "NO_FACE",
+      result.error || "No face detected in the image",
+      422
+    );
+  }
+
+  const response = detectResponseSchema.safeParse({
+    ...result,
+    metadata_removed: metadataRemoved,
+  });
+  if (!response.success) {
+    const issue = response.error.issues[0];
+    throw new ResponseNormalizationError(
+      "INVALID_PAYLOAD",
+      `Result does not match the API schema: ${issue.message}`,
+      issue.path.map(String).join(".")
+    );
+  }
+  return response.data;
+}
+
+// The whole detection, reporting each stage as it is reached
+async function detect(
+  request: Request,
+  onStage: (stage: DetectionStage) => void,
+  signal?: AbortSignal
+): Promise<DetectResponse> {
+  const input = await readImageInput(request);
+  onStage("received");
+  const { image, metadataRemoved } = await prepareUpload(input);
+  onStage("validated");
+
+  onStage("forwarded");
+  const result = await runDetection(image, {
+    signal,
+    onInferenceStarted: () => onStage("inference_started"),
+  });
+  return toDetectResponse(result, metadataRemoved);
+}
+
+function wantsEventStream(request: Request): boolean {
+  return (request.headers.get("accept") ?? "").includes("text/event-stream");
+}
+
+/**
+ * Answers with Server-Sent Events: one event per stage, then `result` with
+ * the usual body or `error` with the error body plus the `status` the plain
+ * response would have had. Each stage is sent once, even across retries.
+ */
+function streamDetection(request: Request): NextResponse {
+  const encoder = new TextEncoder();
+  // Stops the backend call once nobody is listening any more
+  const abortController = new AbortController();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const sent = new Set<string>();
+      const send = (event: string, data: object) => {
+        if (closed || sent.has(event)) return;
+        sent.add(event);
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+        );
+      };
+
+      try {
+        const body = await detect(
+          request,
+          (stage) => send(stage, { stage }),
+          abortController.signal
+        );
+        send("result", body);
+      } catch (error) {
+        if (!closed) send("error", await describeDetectionError(error));
+      }
+
+      if (!closed) {
+        closed = true;
+        controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+      abortController.abort();
+    },
+  });
+
+  return withCircuitState(
+    new NextResponse(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        // Keeps nginx and similar proxies from holding events back
+        "X-Accel-Buffering": "no",
+      },
+    })
+  );
+}
+
+/**
+ * POST handler for /api/v1/detect and the legacy /api/detect-age. The
+ * backend's answer is checked against the response schema, so callers
+ * only ever see the documented shape. Callers that accept
+ * text/event-stream get the progress stream instead of a single answer.
+ */
+export async function handleDetectRequest(
+  request: Request
+): Promise<NextResponse> {
+  if (wantsEventStream(request)) return streamDetection(request);
+
+  try {
+    const body = await detect(request, () => {});
+    return withCircuitState(NextResponse.json(body));
+  } catch (error) {
+    return withCircuitState(detectionErrorResponse(error));
+  }
+}
+
+// Adds the breaker state so callers and dashboards can see backend health
+export function withCircuitState(response: NextResponse): NextResponse {
+  response.headers.set("X-Circuit-State", getInferenceAdapter().breaker.state);
+  return response;
+}
+
+function errorResponse(
+  body: Omit<ApiErrorResponse, "success">,
+  init: ResponseInit
+): NextResponse {
+  const response: ApiErrorResponse = { success: false, ...body };
+  return NextResponse.json(response, init);
+}
+
+// The error response for `error` as a value, for streams and jobs
+export async function describeDetectionError(
+  error: unknown
+): Promise<DetectionFailure> {
+  const response = detectionErrorResponse(error);
+  return { ...(await response.json()), status: response.status };
+}
+
+// Maps anything thrown while detecting to the JSON error the API returns
+export function detectionErrorResponse(error: unknown): NextResponse {
+  console.error("API Route Error:", error);
+
+  if (error instanceof RequestValidationError) {
+    return errorResponse(
+      { error: error.message, code: error.code, field: error.field },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof ImageValidationError) {
+    return errorResponse(
+      { error: error.message, code: error.code },
+      { status: error.status }
+    );
+  }
+
+  if (error instanceof ImageFetchError) {
+    return errorResponse(
+      { error: error.message, code: error.code, field: "image_url" },
+      { status: error.status }
+    );
+  }
+
+  if (error instanceof JobError) {
+    return errorResponse(
+      { error: error.message, code: error.code },
+      { status: error.status }
+    );
+  }
+
+  if (error instanceof CircuitOpenError) {
+    return errorResponse(
+      {
+        error:
+          "The AI service is temporarily unavailable. Please try again shortly.",
+      },
+      {
+        status: 503,
+        headers: {
+          "Retry-After": String(Math.ceil(error.retryAfterMs / 1000)),
+        },
+      }
+    );
+  }
+
+  if (error instanceof InferenceBackendError && error.code === "NO_FACE") {
+    return errorResponse(
+      { error: error.message, code: error.code },
+      { status: error.status }
+    );
+  }
+
+  if (error instanceof InferenceBackendError) {
+    return errorResponse(
+      {
+        error: "Failed to process image",
+        details: error.message,
+        code: error.code,
+      },
+      { status: error.status }
+    );
+  }
+
+  if (error instanceof ResponseNormalizationError) {
+    return errorResponse(
+      {
+        error: "Received an invalid response from the AI service.",
+        code: error.code,
+        field: error.field,
+      },
+      { status: 502 }
+    );
+  }
+
+  // Handle specific error types
+  if (
+    error instanceof InferenceTimeoutError ||
+    (error instanceof Error && error.name === "AbortError")
+  ) {
+    return errorResponse(
+      { error: "Request timeout. Please try again." },
+      { status: 408 }
+    );
+  }
+
+  if (error instanceof TypeError && error.message.includes("fetch")) {
+    return errorResponse(
+      {
+        error:
+          "Unable to connect to AI service. Please ensure the Python server is running.",
+      },
+      { status: 503 }
+    );
+  }
+
+  return errorResponse({ error: "Internal server error" }, { status: 500 });
+}
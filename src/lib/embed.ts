@@ -0,0 +1,41 @@
+import { EmbedConfig } from "@/types";
+import { AGE_GATE_CONFIG, EMBED_CONFIG } from "./config";
+
+type QueryValue = string | string[] | undefined;
+
+function first(value: QueryValue): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function parseOrigin(value: string | undefined): string | null {
+  if (!value) return null;
+  try {
+    return new URL(value).origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the /embed query string. Unknown values fall back to the defaults,
+ * and thresholds the server doesn't offer turn the age check off. The host
+ * is the `origin` parameter or else the page that framed us (`referrer`),
+ * and is only kept when it is in EMBED_ALLOWED_ORIGINS.
+ */
+export function parseEmbedConfig(
+  params: Record<string, QueryValue>,
+  referrer: string | null
+): EmbedConfig {
+  const threshold = Number(first(params.threshold));
+  const host =
+    parseOrigin(first(params.origin)) ?? parseOrigin(referrer ?? undefined);
+  return {
+    theme: first(params.theme) === "light" ? "light" : "dark",
+    camera: first(params.camera) !== "off",
+    ageGateThreshold: AGE_GATE_CONFIG.THRESHOLDS.includes(threshold)
+      ? threshold
+      : null,
+    parentOrigin:
+      host && EMBED_CONFIG.ALLOWED_ORIGINS.includes(host) ? host : null,
+  };
+}
@@ -0,0 +1,181 @@
+export type ResponseNormalizationErrorCode =
+  "INVALID_PAYLOAD" | "INVALID_FIELD" | "MISSING_AGE";
+
+// Thrown when the inference backend returns a payload we cannot trust
+export class ResponseNormalizationError extends Error {
+  readonly code: ResponseNormalizationErrorCode;
+  readonly field?: string;
+
+  constructor(
+    code: ResponseNormalizationErrorCode,
+    message: string,
+    field?: string
+  ) {
+    super(message);
+    this.name = "ResponseNormalizationError";
+    this.code = code;
+    this.field = field;
+  }
+}
+
+export type ImageValidationErrorCode =
+  | "UNSUPPORTED_FORMAT"
+  | "CORRUPT_IMAGE"
+  | "IMAGE_TOO_SMALL"
+  | "IMAGE_TOO_LARGE"
+  | "TOO_MANY_PIXELS"
+  | "TOO_MANY_FRAMES";
+
+// Thrown when an upload is not an image we are willing to forward
+export class ImageValidationError extends Error {
+  readonly code: ImageValidationErrorCode;
+  readonly status: number;
+
+  constructor(code: ImageValidationErrorCode, message: string, status = 400) {
+    super(message);
+    this.name = "ImageValidationError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export type RequestValidationErrorCode =
+  | "MISSING_IMAGE"
+  | "UNSUPPORTED_TYPE"
+  | "FILE_TOO_LARGE"
+  | "INVALID_FIELD"
+  | "INVALID_BODY";
+
+// Thrown when a request to one of our API routes is malformed
+export class RequestValidationError extends Error {
+  readonly code: RequestValidationErrorCode;
+  readonly field?: string;
+
+  constructor(
+    code: RequestValidationErrorCode,
+    message: string,
+    field?: string
+  ) {
+    super(message);
+    this.name = "RequestValidationError";
+    this.code = code;
+    this.field = field;
+  }
+}
+
+export type ImageFetchErrorCode =
+  "URL_NOT_ALLOWED" | "FETCH_FAILED" | "FETCH_TIMEOUT" | "IMAGE_TOO_LARGE";
+
+// Thrown when an image given by URL can't be fetched safely
+export class ImageFetchError extends Error {
+  readonly code: ImageFetchErrorCode;
+  readonly status: number;
+
+  constructor(code: ImageFetchErrorCode, message: string, status = 400) {
+    super(message);
+    this.name = "ImageFetchError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export type InferenceBackendErrorCode =
+  | "BACKEND_MISCONFIGURED"
+  | "BACKEND_ERROR"
+  // The backend answered but had no estimate, usually as it found no face
+  | "NO_FACE";
+
+// Thrown by inference adapters when the backend cannot produce a prediction
+export class InferenceBackendError extends Error {
+  readonly code: InferenceBackendErrorCode;
+  readonly status: number;
+
+  constructor(code: InferenceBackendErrorCode, message: string, status = 502) {
+    super(message);
+    this.name = "InferenceBackendError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export type JobErrorCode = "JOB_NOT_FOUND" | "QUEUE_FULL";
+
+// Thrown by /api/jobs for unknown jobs and when no more work can be queued
+export class JobError extends Error {
+  readonly code: JobErrorCode;
+  readonly status: number;
+
+  constructor(code: JobErrorCode, message: string, status: number) {
+    super(message);
+    this.name = "JobError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+// The reason a detection is aborted with when the backend runs out of time,
+// so a timeout can be told apart from a caller giving up
+export class InferenceTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`The inference backend did not answer within ${timeoutMs}ms`);
+    this.name = "InferenceTimeoutError";
+  }
+}
+
+// Thrown without calling the backend while the circuit breaker is open
+export class CircuitOpenError extends Error {
+  readonly retryAfterMs: number;
+
+  constructor(retryAfterMs: number) {
+    super("The AI service is temporarily unavailable");
+    this.name = "CircuitOpenError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Raised in the browser when the API answers 429 Too Many Requests
+export class RateLimitError extends Error {
+  readonly retryAfterSeconds: number;
+
+  constructor(retryAfterSeconds: number) {
+    super(
+      `Too many requests. Please try again in ${retryAfterSeconds} seconds.`
+    );
+    this.name = "RateLimitError";
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export type ApiClientErrorCode =
+  | "BAD_REQUEST"
+  | "UNAUTHORIZED"
+  | "SERVICE_UNAVAILABLE"
+  | "SERVER_ERROR"
+  | "INVALID_RESPONSE"
+  | "NETWORK_ERROR"
+  | "TIMEOUT"
+  | "ABORTED";
+
+// Raised by the API client for every failure except rate limiting
+export class ApiClientError extends Error {
+  readonly code: ApiClientErrorCode;
+  // HTTP status, null when no response arrived
+  readonly status: number | null;
+  // The `code` from the API's error body, e.g. "IMAGE_TOO_SMALL"
+  readonly apiCode?: string;
+  readonly field?: string;
+
+  constructor(
+    code: ApiClientErrorCode,
+    message: string,
+    status: number | null = null,
+    details: { apiCode?: string; field?: string } = {}
+  ) {
+    super(message);
+    this.name = "ApiClientError";
+    this.code = code;
+    this.status = status;
+    this.apiCode = details.apiCode;
+    this.field = details.field;
+  }
+}
@@ -0,0 +1,209 @@
+import { DetectedFace, ExportRecord } from "@/types";
+
+const CSV_COLUMNS = [
+  "file_name",
+  "source",
+  "created_at",
+  "face_index",
+  "age",
+  "age_range",
+  "age_min",
+  "age_max",
+  "confidence",
+  "gender",
+  "bbox_x",
+  "bbox_y",
+  "bbox_width",
+  "bbox_height",
+  "method",
+  "model_input_size",
+  "model_scaling_factor",
+  "model_range_margin",
+] as const;
+
+type CsvRow = Record<(typeof CSV_COLUMNS)[number], unknown>;
+
+// Spreadsheets run text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  // File names come from the user, so a leading quote keeps them as text.
+  // Numbers are ours and may be negative
+  const text =
+    typeof value === "string" && FORMULA_PREFIX.test(value)
+      ? `'${value}`
+      : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatConfidence(confidence: number | null) {
+  return confidence === null ? "Unknown" : `${Math.round(confidence * 100)}%`;
+}
+
+// Full results without the thumbnails, which only matter for the report
+export function toJson(records: ExportRecord[]): string {
+  return JSON.stringify(
+    {
+      exported_at: new Date().toISOString(),
+      count: records.length,
+      records: records.map((record) => ({
+        file_name: record.fileName,
+        source: record.source,
+        created_at: record.createdAt,
+        result: record.result,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+// One row per face, or one row per image when no face was reported
+export function toCsv(records: ExportRecord[]): string {
+  const rows = records.flatMap((record) => {
+    const estimate = record.result.result;
+    const base = {
+      file_name: record.fileName,
+      source: record.source,
+      created_at: record.createdAt,
+      method: estimate?.method,
+      model_input_size: estimate?.model_info.input_size,
+      model_scaling_factor: estimate?.model_info.scaling_factor,
+      model_range_margin: estimate?.model_info.range_margin,
+    };
+    const faces: (DetectedFace | null)[] =
+      estimate && estimate.faces.length > 0 ? estimate.faces : [null];
+
+    return faces.map((face, index): CsvRow => ({
+      ...base,
+      face_index: face ? index + 1 : null,
+      age: face?.age ?? estimate?.age,
+      age_range: face ? face.age_range : estimate?.age_range,
+      age_min: face ? face.age_min : estimate?.age_min,
+      age_max: face ? face.age_max : estimate?.age_max,
+      confidence: face ? face.confidence : estimate?.confidence,
+      gender: face ? face.gender : estimate?.gender,
+      bbox_x: face?.bbox.x,
+      bbox_y: face?.bbox.y,
+      bbox_width: face?.bbox.width,
+      bbox_height: face?.bbox.height,
+    }));
+  });
+
+  return [
+    CSV_COLUMNS.join(","),
+    ...rows.map((row) =>
+      CSV_COLUMNS.map((column) => csvCell(row[column])).join(",")
+    ),
+  ].join("\r\n");
+}
+
+function reportSection(record: ExportRecord): string {
+  const estimate = record.result.result;
+  if (!estimate) return "";
+
+  const faceRows = estimate.faces
+    .map(
+      (face, index) => `
+        <tr>
+          <td>${index + 1}</td>
+          <td>${escapeHtml(face.age)}</td>
+          <td>${escapeHtml(face.age_range ?? "Unknown")}</td>
+          <td>${formatConfidence(face.confidence)}</td>
+          <td>${escapeHtml(face.gender ?? "Unknown")}</td>
+        </tr>`
+    )
+    .join("");
+
+  return `
+    <section>
+      ${record.thumbnail ? `<img src="${escapeHtml(record.thumbnail)}" alt="" />` : ""}
+      <div>
+        <h2>${escapeHtml(record.fileName)}</h2>
+        <table>
+          <tr><th>Estimated age</th><td>${escapeHtml(estimate.age)}</td></tr>
+          <tr><th>Age range</th><td>${escapeHtml(estimate.age_range ?? "Unknown")}</td></tr>
+          <tr><th>Confidence</th><td>${formatConfidence(estimate.confidence)}</td></tr>
+          <tr><th>Gender</th><td>${escapeHtml(estimate.gender ?? "Unknown")}</td></tr>
+          <tr><th>Method</th><td>${escapeHtml(estimate.method ?? "Unknown")}</td></tr>
+          <tr><th>Model input</th><td>${escapeHtml(estimate.model_info.input_size ?? "Unknown")}</td></tr>
+          <tr><th>Scaling factor</th><td>${escapeHtml(estimate.model_info.scaling_factor ?? "Unknown")}</td></tr>
+          <tr><th>Range margin</th><td>${escapeHtml(estimate.model_info.range_margin ?? "Unknown")}</td></tr>
+          <tr><th>Timestamp</th><td>${escapeHtml(estimate.timestamp)}</td></tr>
+          <tr><th>Source</th><td>${escapeHtml(record.source ?? "Unknown")}</td></tr>
+        </table>
+        ${
+          faceRows
+            ? `<table class="faces">
+                <tr><th>Face</th><th>Age</th><th>Range</th><th>Confidence</th><th>Gender</th></tr>
+                ${faceRows}
+              </table>`
+            : ""
+        }
+      </div>
+    </section>`;
+}
+
+// Standalone page meant for the browser's print dialog or "Save as PDF"
+export function toReportHtml(records: ExportRecord[]): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Age detection report</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #0f172a; margin: 2rem; }
+    header { border-bottom: 2px solid #0f172a; margin-bottom: 1.5rem; }
+    section { display: flex; gap: 1.5rem; padding: 1rem 0; border-bottom: 1px solid #cbd5e1; break-inside: avoid; }
+    img { width: 160px; height: 160px; object-fit: cover; border-radius: 8px; }
+    h2 { font-size: 1.1rem; margin: 0 0 0.5rem; }
+    table { border-collapse: collapse; font-size: 0.9rem; margin-bottom: 0.75rem; }
+    th, td { text-align: left; padding: 0.2rem 0.75rem 0.2rem 0; }
+    th { color: #475569; font-weight: 500; }
+    .faces th, .faces td { border-bottom: 1px solid #e2e8f0; }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>Age detection report</h1>
+    <p>Generated ${escapeHtml(new Date().toISOString())} · ${records.length} image${records.length === 1 ? "" : "s"}</p>
+  </header>
+  ${records.map(reportSection).join("")}
+</body>
+</html>`;
+}
+
+export function downloadFile(
+  content: string | Blob,
+  fileName: string,
+  mimeType: string
+) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// Opens the report in a new tab and brings up the print dialog
+export function printReport(html: string): boolean {
+  const report = window.open("", "_blank");
+  if (!report) return false;
+
+  report.document.write(html);
+  report.document.close();
+  // Wait for the thumbnails so they make it onto the page
+  if (report.document.readyState === "complete") report.print();
+  else report.addEventListener("load", () => report.print());
+  return true;
+}
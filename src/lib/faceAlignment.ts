@@ -0,0 +1,119 @@
+import { AgeDetectionResult, DetectedFace, FaceBoundingBox } from "@/types";
+import { LocatedFace } from "./faceDetection";
+
+// Space kept around each face on every side, as a fraction of its size
+const FACE_MARGIN = 0.4;
+
+// A larger tilt is more likely a bad eye estimate than a tilted head
+const MAX_ROLL_DEGREES = 30;
+
+export interface FaceCrop {
+  // Square crop with the eyes levelled, ready for preprocessing
+  canvas: HTMLCanvasElement;
+  // Where the face is in the source image
+  bbox: FaceBoundingBox;
+  rollDegrees: number;
+}
+
+// Angle of the line between the eyes, 0 when they weren't found
+function rollDegrees(face: LocatedFace): number {
+  if (!face.leftEye || !face.rightEye) return 0;
+
+  const degrees =
+    (Math.atan2(
+      face.rightEye.y - face.leftEye.y,
+      face.rightEye.x - face.leftEye.x
+    ) *
+      180) /
+    Math.PI;
+  return Math.abs(degrees) <= MAX_ROLL_DEGREES ? degrees : 0;
+}
+
+function drawAlignedCrop(
+  source: HTMLCanvasElement,
+  face: LocatedFace,
+  roll: number,
+  maxSize: number
+): HTMLCanvasElement {
+  const { x, y, width, height } = face.bbox;
+  const side = Math.max(width, height) * (1 + 2 * FACE_MARGIN);
+  const size = Math.max(1, Math.round(Math.min(side, maxSize)));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return canvas;
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = "high";
+  ctx.fillStyle = "#000";
+  ctx.fillRect(0, 0, size, size);
+
+  // Rotate around the face centre so the eyes end up horizontal
+  ctx.translate(size / 2, size / 2);
+  ctx.scale(size / side, size / side);
+  ctx.rotate((-roll * Math.PI) / 180);
+  ctx.translate(-(x + width / 2), -(y + height / 2));
+  ctx.drawImage(source, 0, 0);
+
+  return canvas;
+}
+
+/**
+ * Returns one square, eye-levelled crop per face found by `locateFaces`, in
+ * the same order.
+ */
+export function cropFaces(
+  source: HTMLCanvasElement,
+  faces: LocatedFace[],
+  maxSize: number
+): FaceCrop[] {
+  return faces.map((face) => {
+    const roll = rollDegrees(face);
+    return {
+      canvas: drawAlignedCrop(source, face, roll, maxSize),
+      bbox: face.bbox,
+      rollDegrees: roll,
+    };
+  });
+}
+
+/**
+ * Combines the per-crop results into one result for the whole photo. Each
+ * crop holds one face, so its top level estimate becomes that face's entry
+ * and the box is the crop's position, moved by `mapBox` onto the preview.
+ */
+export function mergeCropResults(
+  crops: FaceCrop[],
+  results: (AgeDetectionResult | null)[],
+  mapBox: (bbox: FaceBoundingBox) => FaceBoundingBox
+): AgeDetectionResult | null {
+  const answered = crops.flatMap((crop, index) => {
+    const result = results[index];
+    return result?.result ? [{ crop, result, estimate: result.result }] : [];
+  });
+  if (answered.length === 0) return null;
+
+  const faces: DetectedFace[] = answered.map(({ crop, estimate }) => ({
+    bbox: mapBox(crop.bbox),
+    age: estimate.age,
+    age_range: estimate.age_range,
+    age_min: estimate.age_min,
+    age_max: estimate.age_max,
+    confidence: estimate.confidence,
+    raw_prediction: estimate.raw_prediction,
+    gender: estimate.gender,
+  }));
+
+  const primary = answered[0];
+  return {
+    ...primary.result,
+    result: {
+      ...primary.estimate,
+      face_detected: true,
+      faces_count: faces.length,
+      faces,
+    },
+  };
+}
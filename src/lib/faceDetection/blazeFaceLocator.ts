@@ -0,0 +1,156 @@
+import type {
+  BlazeFaceModel,
+  NormalizedFace,
+} from "@tensorflow-models/blazeface";
+import { FaceBoundingBox } from "@/types";
+import { FaceLocator, LocatedFace } from "./types";
+
+// MediaPipe's short range BlazeFace, served from public/
+const MODEL_URL = "/models/blazeface/model.json";
+
+// The model looks at 128x128 pixels; tiles are drawn at twice that so the
+// resize inside the model does the downscaling
+const TILE_SIZE = 256;
+
+// Share of the smaller box two detections must cover to be the same face
+const SAME_FACE_OVERLAP = 0.5;
+
+interface Tile {
+  canvas: HTMLCanvasElement;
+  // Where the tile starts in the source and source pixels per tile pixel
+  x: number;
+  y: number;
+  scale: number;
+}
+
+/**
+ * Square tiles along the longer side of `source`, overlapping so a face cut
+ * by one tile edge is whole in the next. The model only takes a square, and
+ * shrinking the whole photo into one would leave group shots with faces
+ * too small to find.
+ */
+function squareTiles(source: HTMLCanvasElement): Tile[] {
+  const side = Math.min(source.width, source.height);
+  const span = Math.max(source.width, source.height) - side;
+  const count = span === 0 ? 1 : Math.floor(span / side) + 2;
+  const tiles: Tile[] = [];
+
+  for (let index = 0; index < count; index++) {
+    const offset = count === 1 ? 0 : Math.round((index * span) / (count - 1));
+    const x = source.width > source.height ? offset : 0;
+    const y = source.width > source.height ? 0 : offset;
+
+    const canvas = document.createElement("canvas");
+    canvas.width = TILE_SIZE;
+    canvas.height = TILE_SIZE;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) continue;
+    ctx.drawImage(source, x, y, side, side, 0, 0, TILE_SIZE, TILE_SIZE);
+    tiles.push({ canvas, x, y, scale: side / TILE_SIZE });
+  }
+
+  return tiles;
+}
+
+function toLocatedFace(face: NormalizedFace, tile: Tile): LocatedFace | null {
+  // estimateFaces(..., false) returns plain arrays, the typings allow tensors
+  if (!Array.isArray(face.topLeft) || !Array.isArray(face.bottomRight)) {
+    return null;
+  }
+  const toSource = ([x, y]: number[]) => ({
+    x: tile.x + x * tile.scale,
+    y: tile.y + y * tile.scale,
+  });
+  const topLeft = toSource(face.topLeft);
+  const bottomRight = toSource(face.bottomRight);
+
+  // The first two landmarks are the eyes, sorted here as they appear
+  const eyes = Array.isArray(face.landmarks)
+    ? face.landmarks
+        .slice(0, 2)
+        .map(toSource)
+        .sort((a, b) => a.x - b.x)
+    : [];
+
+  return {
+    bbox: {
+      x: Math.round(topLeft.x),
+      y: Math.round(topLeft.y),
+      width: Math.round(bottomRight.x - topLeft.x),
+      height: Math.round(bottomRight.y - topLeft.y),
+    },
+    leftEye: eyes.length === 2 ? eyes[0] : null,
+    rightEye: eyes.length === 2 ? eyes[1] : null,
+  };
+}
+
+function overlap(a: FaceBoundingBox, b: FaceBoundingBox): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  return (width * height) / Math.min(a.width * a.height, b.width * b.height);
+}
+
+async function loadModel(maxFaces: number): Promise<BlazeFaceModel> {
+  const [tf, blazeface] = await Promise.all([
+    import("@tensorflow/tfjs-core"),
+    import("@tensorflow-models/blazeface"),
+    import("@tensorflow/tfjs-backend-webgl"),
+    import("@tensorflow/tfjs-backend-cpu"),
+  ]);
+  // WebGL is many times faster; the CPU backend covers browsers without it
+  const onGpu = await tf.setBackend("webgl").catch(() => false);
+  if (!onGpu) await tf.setBackend("cpu");
+
+  return blazeface.load({ modelUrl: MODEL_URL, maxFaces });
+}
+
+/**
+ * Bundled detector for browsers without `FaceDetector`: a BlazeFace model
+ * of about 200 KB that also places the eyes. TensorFlow.js and the weights
+ * are only fetched the first time a photo is checked.
+ */
+export class BlazeFaceLocator implements FaceLocator {
+  readonly name = "blazeface";
+  private model: Promise<BlazeFaceModel> | null = null;
+
+  constructor(private readonly maxFaces: number) {}
+
+  isSupported(): boolean {
+    return typeof document !== "undefined";
+  }
+
+  async detect(source: HTMLCanvasElement): Promise<LocatedFace[]> {
+    if (!this.model) {
+      this.model = loadModel(this.maxFaces);
+      // Let the next photo try again if loading failed
+      this.model.catch(() => {
+        this.model = null;
+      });
+    }
+    const model = await this.model;
+
+    const found: LocatedFace[] = [];
+    for (const tile of squareTiles(source)) {
+      const faces = await model.estimateFaces(tile.canvas, false);
+      for (const face of faces) {
+        const located = toLocatedFace(face, tile);
+        if (located) found.push(located);
+      }
+    }
+
+    // A face near a tile edge is found twice, whole and cut off; the whole
+    // one is the larger box
+    const faces: LocatedFace[] = [];
+    const bySize = found.sort(
+      (a, b) => b.bbox.width * b.bbox.height - a.bbox.width * a.bbox.height
+    );
+    for (const face of bySize) {
+      const seen = faces.some(
+        (kept) => overlap(kept.bbox, face.bbox) >= SAME_FACE_OVERLAP
+      );
+      if (!seen) faces.push(face);
+    }
+    return faces.slice(0, this.maxFaces);
+  }
+}
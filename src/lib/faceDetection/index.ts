@@ -0,0 +1,49 @@
+import { BlazeFaceLocator } from "./blazeFaceLocator";
+import { NativeFaceLocator } from "./nativeLocator";
+import { FaceLocator, LocatedFace } from "./types";
+
+export type { FaceLocator, LocatedFace, Point } from "./types";
+
+// More faces than this in one photo is a crowd, not a portrait
+const MAX_FACES = 5;
+
+// One extra so a crowd can be told apart from exactly MAX_FACES faces
+const nativeLocator = new NativeFaceLocator(MAX_FACES + 1);
+const fallbackLocator = new BlazeFaceLocator(MAX_FACES + 1);
+
+export interface FaceSearch {
+  // Largest first, at most MAX_FACES
+  faces: LocatedFace[];
+  // Whether the faces can be cropped and sent in place of the photo. A
+  // crowd is sent whole, so no face is left out.
+  croppable: boolean;
+}
+
+/**
+ * Finds faces in `source`. Prefers the browser's own detector and falls
+ * back to the bundled one when it is missing or fails.
+ */
+export async function locateFaces(
+  source: HTMLCanvasElement
+): Promise<FaceSearch> {
+  const locators: FaceLocator[] = [nativeLocator, fallbackLocator];
+
+  for (const locator of locators.filter((item) => item.isSupported())) {
+    try {
+      const found = await locator.detect(source);
+      const faces = found
+        .sort(
+          (a, b) => b.bbox.width * b.bbox.height - a.bbox.width * a.bbox.height
+        )
+        .slice(0, MAX_FACES);
+      return {
+        faces,
+        croppable: faces.length > 0 && found.length <= MAX_FACES,
+      };
+    } catch (error) {
+      console.warn(`Face locator "${locator.name}" failed:`, error);
+    }
+  }
+
+  return { faces: [], croppable: false };
+}
@@ -0,0 +1,78 @@
+import { FaceLocator, LocatedFace, Point } from "./types";
+
+// The Shape Detection API is not in the DOM typings yet
+interface DetectedFaceLandmark {
+  type: string;
+  locations: Point[];
+}
+
+interface NativeDetectedFace {
+  boundingBox: DOMRectReadOnly;
+  landmarks?: DetectedFaceLandmark[];
+}
+
+interface NativeFaceDetector {
+  detect(source: HTMLCanvasElement): Promise<NativeDetectedFace[]>;
+}
+
+type NativeFaceDetectorConstructor = new (options?: {
+  maxDetectedFaces?: number;
+  fastMode?: boolean;
+}) => NativeFaceDetector;
+
+function getConstructor(): NativeFaceDetectorConstructor | undefined {
+  if (typeof window === "undefined") return undefined;
+  return (window as { FaceDetector?: NativeFaceDetectorConstructor })
+    .FaceDetector;
+}
+
+function centerOf(points: Point[]): Point {
+  return {
+    x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+    y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+  };
+}
+
+/**
+ * Uses the browser's built-in `FaceDetector` (Chrome on Android and macOS,
+ * behind a flag elsewhere), which also reports eye landmarks.
+ */
+export class NativeFaceLocator implements FaceLocator {
+  readonly name = "native";
+  private detector: NativeFaceDetector | null = null;
+
+  constructor(private readonly maxFaces: number) {}
+
+  isSupported(): boolean {
+    return getConstructor() !== undefined;
+  }
+
+  async detect(source: HTMLCanvasElement): Promise<LocatedFace[]> {
+    const FaceDetector = getConstructor();
+    if (!FaceDetector) throw new Error("FaceDetector is not available");
+
+    if (!this.detector) {
+      this.detector = new FaceDetector({ maxDetectedFaces: this.maxFaces });
+    }
+    const faces = await this.detector.detect(source);
+
+    return faces.map(({ boundingBox, landmarks = [] }) => {
+      const eyes = landmarks
+        .filter((landmark) => landmark.type === "eye")
+        .filter((landmark) => landmark.locations.length > 0)
+        .map((landmark) => centerOf(landmark.locations))
+        .sort((a, b) => a.x - b.x);
+
+      return {
+        bbox: {
+          x: Math.round(boundingBox.x),
+          y: Math.round(boundingBox.y),
+          width: Math.round(boundingBox.width),
+          height: Math.round(boundingBox.height),
+        },
+        leftEye: eyes.length === 2 ? eyes[0] : null,
+        rightEye: eyes.length === 2 ? eyes[1] : null,
+      };
+    });
+  }
+}
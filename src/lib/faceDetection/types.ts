@@ -0,0 +1,20 @@
+import { FaceBoundingBox } from "@/types";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// A face found in the browser, in the pixel coordinates of the source canvas
+export interface LocatedFace {
+  bbox: FaceBoundingBox;
+  // Left and right as they appear in the image, null when not found
+  leftEye: Point | null;
+  rightEye: Point | null;
+}
+
+export interface FaceLocator {
+  readonly name: string;
+  isSupported(): boolean;
+  detect(source: HTMLCanvasElement): Promise<LocatedFace[]>;
+}
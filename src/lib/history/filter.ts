@@ -0,0 +1,55 @@
+import { HistoryEntry, HistoryFilter } from "@/types";
+
+export const EMPTY_HISTORY_FILTER: HistoryFilter = {
+  query: "",
+  from: "",
+  to: "",
+  minAge: null,
+  maxAge: null,
+};
+
+// Local calendar day of an ISO timestamp, comparable with <input type="date">
+function localDay(timestamp: string): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function searchableText(entry: HistoryEntry): string {
+  const estimate = entry.result.result;
+  return [
+    entry.fileName,
+    entry.source,
+    estimate?.age,
+    estimate?.age_range,
+    estimate?.gender,
+    estimate?.method,
+  ]
+    .filter((value) => value !== null && value !== undefined)
+    .join(" ")
+    .toLowerCase();
+}
+
+export function filterHistory(
+  entries: HistoryEntry[],
+  filter: HistoryFilter
+): HistoryEntry[] {
+  const query = filter.query.trim().toLowerCase();
+
+  return entries.filter((entry) => {
+    const day = localDay(entry.createdAt);
+    const age = entry.result.result?.age;
+
+    if (query && !searchableText(entry).includes(query)) return false;
+    if (filter.from && day < filter.from) return false;
+    if (filter.to && day > filter.to) return false;
+    if (filter.minAge !== null && (age === undefined || age < filter.minAge)) {
+      return false;
+    }
+    if (filter.maxAge !== null && (age === undefined || age > filter.maxAge)) {
+      return false;
+    }
+    return true;
+  });
+}
@@ -0,0 +1,128 @@
+import { HistoryEntry } from "@/types";
+
+const DB_NAME = "age-detector";
+const DB_VERSION = 1;
+const STORE_NAME = "history";
+
+// Oldest entries are evicted once either limit is exceeded
+export const HISTORY_LIMITS = {
+  MAX_ENTRIES: 200,
+  MAX_BYTES: 50 * 1024 * 1024,
+};
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Rough storage cost, dominated by the image and thumbnail
+function entrySize(entry: HistoryEntry): number {
+  return (
+    entry.image.size +
+    entry.thumbnail.length +
+    JSON.stringify(entry.result).length
+  );
+}
+
+function newestFirst(a: HistoryEntry, b: HistoryEntry) {
+  return b.createdAt.localeCompare(a.createdAt);
+}
+
+/**
+ * Detection history in IndexedDB. Every method opens the database lazily,
+ * so the store can be created during server rendering and used later.
+ */
+export class HistoryStore {
+  private db: Promise<IDBDatabase> | null = null;
+  private listeners = new Set<() => void>();
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+      };
+      this.db = promisify(request).catch((error) => {
+        this.db = null;
+        throw error;
+      });
+    }
+    return this.db;
+  }
+
+  private async objectStore(mode: IDBTransactionMode) {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Calls `listener` after every change, returns the unsubscribe function
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async list(): Promise<HistoryEntry[]> {
+    const entries = await promisify(
+      (await this.objectStore("readonly")).getAll()
+    );
+    return (entries as HistoryEntry[]).sort(newestFirst);
+  }
+
+  async add(entry: HistoryEntry): Promise<void> {
+    await promisify((await this.objectStore("readwrite")).put(entry));
+    await this.evict();
+    this.notify();
+  }
+
+  async update(id: string, changes: Partial<HistoryEntry>): Promise<void> {
+    const store = await this.objectStore("readwrite");
+    const entry: HistoryEntry | undefined = await promisify(store.get(id));
+    if (!entry) return;
+
+    await promisify(store.put({ ...entry, ...changes, id }));
+    this.notify();
+  }
+
+  async remove(id: string): Promise<void> {
+    await promisify((await this.objectStore("readwrite")).delete(id));
+    this.notify();
+  }
+
+  async clear(): Promise<void> {
+    await promisify((await this.objectStore("readwrite")).clear());
+    this.notify();
+  }
+
+  private async evict() {
+    const entries = await this.list();
+    let totalBytes = entries.reduce((sum, entry) => sum + entrySize(entry), 0);
+    let count = entries.length;
+
+    const evicted: string[] = [];
+    for (const entry of entries.reverse()) {
+      if (
+        count <= HISTORY_LIMITS.MAX_ENTRIES &&
+        totalBytes <= HISTORY_LIMITS.MAX_BYTES
+      ) {
+        break;
+      }
+      evicted.push(entry.id);
+      count--;
+      totalBytes -= entrySize(entry);
+    }
+    if (evicted.length === 0) return;
+
+    const store = await this.objectStore("readwrite");
+    await Promise.all(evicted.map((id) => promisify(store.delete(id))));
+  }
+}
+
+export const historyStore = new HistoryStore();
@@ -0,0 +1,2 @@
+export { HISTORY_LIMITS, HistoryStore, historyStore } from "./historyStore";
+export { EMPTY_HISTORY_FILTER, filterHistory } from "./filter";
@@ -0,0 +1,290 @@
+import { LookupAddress, lookup as dnsLookup } from "node:dns";
+import http, { IncomingMessage } from "node:http";
+import https from "node:https";
+import { isIP } from "node:net";
+import { IMAGE_FETCH_CONFIG } from "./config";
+import { ImageFetchError } from "./errors";
+
+// IPv4 ranges that aren't on the public internet, as [network, prefix length]
+const BLOCKED_IPV4: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+function ipv4ToNumber(address: string): number {
+  return address
+    .split(".")
+    .reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+function isPublicIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return !BLOCKED_IPV4.some(([network, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    const start = ipv4ToNumber(network);
+    return value >= start && value < start + size;
+  });
+}
+
+// Eight 16-bit groups, with `::` and a trailing dotted IPv4 expanded
+function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase().split("%")[0];
+  const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const value = ipv4ToNumber(dotted[1]);
+    text = text.replace(
+      dotted[1],
+      `${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`
+    );
+  }
+
+  const [head, tail] = text.split("::");
+  const parse = (part: string | undefined) =>
+    part ? part.split(":").map((group) => parseInt(group, 16)) : [];
+  const front = parse(head);
+  const back = parse(tail);
+  const missing = tail === undefined ? 0 : 8 - front.length - back.length;
+  return [...front, ...new Array(missing).fill(0), ...back];
+}
+
+function isPublicIpv6(address: string): boolean {
+  const groups = ipv6Groups(address);
+  // The IPv4 address held in two groups starting at `index`
+  const embeddedIpv4 = (index: number) =>
+    [
+      groups[index] >> 8,
+      groups[index] & 0xff,
+      groups[index + 1] >> 8,
+      groups[index + 1] & 0xff,
+    ].join(".");
+
+  // IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) carry an IPv4 address
+  if (
+    groups.slice(0, 5).every((group) => group === 0) &&
+    groups[5] === 0xffff
+  ) {
+    return isPublicIpv4(embeddedIpv4(6));
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b) {
+    return isPublicIpv4(embeddedIpv4(6));
+  }
+  // 6to4 (2002::/16) carries the IPv4 address right after the prefix
+  if (groups[0] === 0x2002) {
+    return isPublicIpv4(embeddedIpv4(1));
+  }
+
+  const first = groups[0];
+  // ::/96 covers ::, ::1 and the deprecated IPv4-compatible ::a.b.c.d
+  if (groups.slice(0, 6).every((group) => group === 0)) return false;
+  if ((first & 0xfe00) === 0xfc00) return false; // Unique local fc00::/7
+  if ((first & 0xffc0) === 0xfe80) return false; // Link local fe80::/10
+  if ((first & 0xff00) === 0xff00) return false; // Multicast ff00::/8
+  if (first === 0x2001 && groups[1] === 0x0db8) return false; // Documentation
+  if (first === 0x2001 && groups[1] === 0) return false; // Teredo 2001::/32
+  if (first === 0x0100 && groups.slice(1, 4).every((g) => g === 0)) {
+    return false; // Discard-only 100::/64
+  }
+  return true;
+}
+
+export function isPublicAddress(address: string): boolean {
+  switch (isIP(address)) {
+    case 4:
+      return isPublicIpv4(address);
+    case 6:
+      return isPublicIpv6(address);
+    default:
+      return false;
+  }
+}
+
+/**
+ * DNS lookup for outgoing requests that refuses private addresses. Because
+ * the socket connects to the address checked here, a hostname can't
+ * resolve to a public IP for the check and a private one for the request.
+ */
+const safeLookup: typeof dnsLookup = ((
+  hostname: string,
+  options: object,
+  callback: (
+    error: NodeJS.ErrnoException | null,
+    address: string | LookupAddress[],
+    family?: number
+  ) => void
+) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    if (blocked || addresses.length === 0) {
+      return callback(
+        new ImageFetchError(
+          "URL_NOT_ALLOWED",
+          "The image URL points to a private or reserved address"
+        ),
+        []
+      );
+    }
+    if ("all" in options && options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as typeof dnsLookup;
+
+function checkUrl(value: string | URL): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new ImageFetchError("URL_NOT_ALLOWED", "The image URL is not valid");
+  }
+
+  const scheme = url.protocol.replace(/:$/, "");
+  if (!IMAGE_FETCH_CONFIG.ALLOWED_SCHEMES.includes(scheme)) {
+    throw new ImageFetchError(
+      "URL_NOT_ALLOWED",
+      `Image URLs must use ${IMAGE_FETCH_CONFIG.ALLOWED_SCHEMES.join(" or ")}`
+    );
+  }
+  if (url.username || url.password) {
+    throw new ImageFetchError(
+      "URL_NOT_ALLOWED",
+      "Image URLs can't contain credentials"
+    );
+  }
+
+  // IP literals skip DNS, so they are checked here instead
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host) && !isPublicAddress(host)) {
+    throw new ImageFetchError(
+      "URL_NOT_ALLOWED",
+      "The image URL points to a private or reserved address"
+    );
+  }
+  return url;
+}
+
+function get(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  const client = url.protocol === "http:" ? http : https;
+  return new Promise((resolve, reject) => {
+    const request = client.get(
+      url,
+      {
+        lookup: safeLookup,
+        signal,
+        headers: { Accept: "image/jpeg, image/png, image/webp" },
+      },
+      resolve
+    );
+    request.on("error", reject);
+  });
+}
+
+async function readBody(
+  response: IncomingMessage,
+  maxBytes: number
+): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      response.destroy();
+      throw new ImageFetchError(
+        "IMAGE_TOO_LARGE",
+        `The image at the URL is larger than ${maxBytes} bytes`
+      );
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Downloads an image for a JSON request. Only allowed schemes and public
+ * addresses are contacted, redirects are re-checked hop by hop, and the
+ * whole download must fit the size and time limits. The file's type is the
+ * server's Content-Type; the usual upload validation decides the rest.
+ */
+export async function fetchImageFromUrl(value: string): Promise<File> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(
+    () => controller.abort(),
+    IMAGE_FETCH_CONFIG.TIMEOUT_MS
+  );
+
+  try {
+    let url = checkUrl(value);
+    for (let redirects = 0; ; redirects++) {
+      const response = await get(url, controller.signal);
+      const status = response.statusCode ?? 0;
+      const location = response.headers.location;
+
+      if (status >= 300 && status < 400 && location) {
+        response.resume();
+        if (redirects >= IMAGE_FETCH_CONFIG.MAX_REDIRECTS) {
+          throw new ImageFetchError(
+            "FETCH_FAILED",
+            "The image URL redirects too many times",
+            502
+          );
+        }
+        url = checkUrl(new URL(location, url));
+        continue;
+      }
+
+      if (status !== 200) {
+        response.resume();
+        throw new ImageFetchError(
+          "FETCH_FAILED",
+          `The image URL answered with status ${status}`,
+          502
+        );
+      }
+
+      const declaredSize = Number(response.headers["content-length"]);
+      if (declaredSize > IMAGE_FETCH_CONFIG.MAX_BYTES) {
+        response.destroy();
+        throw new ImageFetchError(
+          "IMAGE_TOO_LARGE",
+          `The image at the URL is larger than ${IMAGE_FETCH_CONFIG.MAX_BYTES} bytes`
+        );
+      }
+
+      const body = await readBody(response, IMAGE_FETCH_CONFIG.MAX_BYTES);
+      const type = (response.headers["content-type"] ?? "")
+        .split(";")[0]
+        .trim()
+        .toLowerCase();
+      const name = url.pathname.split("/").pop() || "image";
+      return new File([body], name, { type });
+    }
+  } catch (error) {
+    // Includes private addresses refused by the lookup
+    if (error instanceof ImageFetchError) throw error;
+    if (controller.signal.aborted) {
+      throw new ImageFetchError(
+        "FETCH_TIMEOUT",
+        "Fetching the image URL took too long",
+        504
+      );
+    }
+    throw new ImageFetchError(
+      "FETCH_FAILED",
+      "The image URL could not be fetched",
+      502
+    );
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,365 @@
+import { MetadataKind } from "@/types";
+import { ascii, sniffImageFormat } from "./imageFormat";
+
+export interface MetadataScan {
+  // EXIF orientation 1-8, 1 when absent
+  orientation: number;
+  // Metadata present in the input, and therefore removed from `bytes`
+  removed: MetadataKind[];
+  bytes: Uint8Array;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0)
+  );
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+function addKind(kinds: MetadataKind[], kind: MetadataKind) {
+  if (!kinds.includes(kind)) kinds.push(kind);
+}
+
+// Reads orientation and the GPS pointer from IFD0 of a TIFF block
+function readTiff(bytes: Uint8Array, start: number) {
+  const result = { orientation: 1, hasGps: false };
+  try {
+    const view = new DataView(bytes.buffer, bytes.byteOffset + start);
+    const little = ascii(bytes, start, 2) === "II";
+    const ifd0 = view.getUint32(4, little);
+    const count = view.getUint16(ifd0, little);
+
+    for (let i = 0; i < count; i++) {
+      const entry = ifd0 + 2 + i * 12;
+      const tag = view.getUint16(entry, little);
+      if (tag === 0x0112) {
+        const value = view.getUint16(entry + 8, little);
+        if (value >= 1 && value <= 8) result.orientation = value;
+      } else if (tag === 0x8825) {
+        result.hasGps = true;
+      }
+    }
+  } catch {
+    // A truncated EXIF block is still EXIF, just without usable tags
+  }
+  return result;
+}
+
+// A minimal big-endian TIFF block carrying only the orientation tag
+function orientationTiff(orientation: number): Uint8Array {
+  const tiff = new Uint8Array(26);
+  const view = new DataView(tiff.buffer);
+  view.setUint16(0, 0x4d4d);
+  view.setUint16(2, 0x002a);
+  view.setUint32(4, 8);
+  view.setUint16(8, 1);
+  view.setUint16(10, 0x0112);
+  view.setUint16(12, 3);
+  view.setUint32(14, 1);
+  view.setUint16(18, orientation);
+  return tiff;
+}
+
+function writeAscii(target: Uint8Array, text: string, offset: number) {
+  target.set(
+    Array.from(text, (char) => char.charCodeAt(0)),
+    offset
+  );
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit++) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  }
+  return value >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function jpegOrientationSegment(orientation: number): Uint8Array {
+  const segment = new Uint8Array(36);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, segment.length - 2);
+  writeAscii(segment, "Exif\0\0", 4);
+  segment.set(orientationTiff(orientation), 10);
+  return segment;
+}
+
+function pngOrientationChunk(orientation: number): Uint8Array {
+  const chunk = new Uint8Array(38);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 26);
+  writeAscii(chunk, "eXIf", 4);
+  chunk.set(orientationTiff(orientation), 8);
+  view.setUint32(34, crc32(chunk.subarray(4, 34)));
+  return chunk;
+}
+
+function webpOrientationChunk(orientation: number): Uint8Array {
+  const chunk = new Uint8Array(34);
+  writeAscii(chunk, "EXIF", 0);
+  new DataView(chunk.buffer).setUint32(4, 26, true);
+  chunk.set(orientationTiff(orientation), 8);
+  return chunk;
+}
+
+// Standalone JPEG markers carry no length field
+function isStandaloneMarker(marker: number): boolean {
+  return marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7);
+}
+
+// Offset of the first marker after the entropy coded data at `offset`. Inside
+// that data 0xFF is only followed by a stuffed zero or a restart marker
+function skipScanData(bytes: Uint8Array, offset: number): number {
+  for (let i = offset; i + 1 < bytes.length; i++) {
+    if (bytes[i] !== 0xff) continue;
+    const next = bytes[i + 1];
+    if (next === 0x00 || next === 0xff || isStandaloneMarker(next)) continue;
+    return i;
+  }
+  return bytes.length;
+}
+
+function scanJpeg(bytes: Uint8Array): MetadataScan {
+  const removed: MetadataKind[] = [];
+  const kept: Uint8Array[] = [];
+  let orientation = 1;
+  let offset = 2;
+
+  while (offset + 2 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // End of image: whatever follows, such as a motion photo video or the
+    // extra images of an MPF file, is dropped along with their own EXIF
+    if (marker === 0xd9) {
+      kept.push(bytes.subarray(offset, offset + 2));
+      offset += 2;
+      break;
+    }
+    if (isStandaloneMarker(marker)) {
+      kept.push(bytes.subarray(offset, offset + 2));
+      offset += 2;
+      continue;
+    }
+    if (offset + 4 > bytes.length) break;
+
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    const payload = offset + 4;
+
+    if (marker === 0xda) {
+      // Start of scan: keep the header and the image data up to the next
+      // marker, progressive files have several scans
+      const scanEnd = skipScanData(bytes, end);
+      kept.push(bytes.subarray(offset, scanEnd));
+      offset = scanEnd;
+      continue;
+    }
+
+    if (marker === 0xe1) {
+      if (ascii(bytes, payload, 6) === "Exif\0\0") {
+        const tiff = readTiff(bytes, payload + 6);
+        orientation = tiff.orientation;
+        addKind(removed, "exif");
+        if (tiff.hasGps) addKind(removed, "gps");
+      } else {
+        // Anything else in APP1 is an XMP packet or its extension
+        addKind(removed, "xmp");
+      }
+    } else if (marker === 0xe2 && ascii(bytes, payload, 4) === "MPF\0") {
+      // Index of the extra images appended after the end of the image
+      addKind(removed, "other");
+    } else if (marker === 0xed) {
+      addKind(removed, "iptc");
+    } else if (marker === 0xfe) {
+      addKind(removed, "comment");
+    } else {
+      kept.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  if (offset < bytes.length) addKind(removed, "other");
+
+  // JFIF requires APP0 first, so the orientation goes right after it
+  const hasApp0 = kept.length > 0 && kept[0][1] === 0xe0;
+  const orientationParts =
+    orientation > 1 ? [jpegOrientationSegment(orientation)] : [];
+
+  return {
+    orientation,
+    removed,
+    bytes: concat([
+      bytes.subarray(0, 2),
+      ...(hasApp0
+        ? [kept[0], ...orientationParts, ...kept.slice(1)]
+        : [...orientationParts, ...kept]),
+    ]),
+  };
+}
+
+// Ancillary PNG chunks that only describe how to draw the image. Any other
+// ancillary chunk, tIME and private ones included, is dropped
+const PNG_IMAGE_CHUNKS = new Set([
+  "tRNS",
+  "cHRM",
+  "gAMA",
+  "iCCP",
+  "sBIT",
+  "sRGB",
+  "cICP",
+  "mDCv",
+  "cLLi",
+  "bKGD",
+  "hIST",
+  "pHYs",
+  "sPLT",
+  "acTL",
+  "fcTL",
+  "fdAT",
+]);
+
+function scanPng(bytes: Uint8Array): MetadataScan {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const removed: MetadataKind[] = [];
+  const kept: Uint8Array[] = [bytes.subarray(0, 8)];
+  let orientation = 1;
+  let offset = 8;
+
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    const end = offset + 12 + length;
+    // Critical chunks have an upper case first letter and are always kept
+    const critical = (bytes[offset + 4] & 0x20) === 0;
+
+    if (type === "eXIf") {
+      const tiff = readTiff(bytes, offset + 8);
+      orientation = tiff.orientation;
+      addKind(removed, "exif");
+      if (tiff.hasGps) addKind(removed, "gps");
+    } else if (type === "tEXt" || type === "zTXt" || type === "iTXt") {
+      const keyword = ascii(bytes, offset + 8, Math.min(length, 80)).split(
+        "\0"
+      )[0];
+      if (keyword === "XML:com.adobe.xmp") addKind(removed, "xmp");
+      else if (keyword.startsWith("Raw profile type exif"))
+        addKind(removed, "exif");
+      else if (keyword.startsWith("Raw profile type iptc"))
+        addKind(removed, "iptc");
+      else addKind(removed, "text");
+    } else if (critical || PNG_IMAGE_CHUNKS.has(type)) {
+      kept.push(bytes.subarray(offset, end));
+    } else {
+      addKind(removed, "other");
+    }
+
+    offset = end;
+    if (type === "IEND") break;
+  }
+
+  // Nothing after IEND is part of the image
+  if (offset < bytes.length) addKind(removed, "other");
+
+  // eXIf has to precede the image data, so it goes right after IHDR
+  if (orientation > 1) kept.splice(2, 0, pngOrientationChunk(orientation));
+
+  return { orientation, removed, bytes: concat(kept) };
+}
+
+// WebP chunks that make up the image; anything else is dropped
+const WEBP_IMAGE_CHUNKS = new Set([
+  "VP8 ",
+  "VP8L",
+  "VP8X",
+  "ALPH",
+  "ANIM",
+  "ANMF",
+  "ICCP",
+]);
+
+function scanWebp(bytes: Uint8Array): MetadataScan {
+  const removed: MetadataKind[] = [];
+  const kept: Uint8Array[] = [];
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // Data past the size in the RIFF header is not part of the image
+  const riffEnd = Math.min(bytes.length, 8 + view.getUint32(4, true));
+  let orientation = 1;
+  let offset = 12;
+
+  while (offset + 8 <= riffEnd) {
+    const type = ascii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const end = Math.min(riffEnd, offset + 8 + size + (size % 2));
+
+    if (type === "EXIF") {
+      // Some encoders keep the JPEG style "Exif\0\0" prefix, some don't
+      const data = offset + 8;
+      const tiff = readTiff(
+        bytes,
+        ascii(bytes, data, 6) === "Exif\0\0" ? data + 6 : data
+      );
+      orientation = tiff.orientation;
+      addKind(removed, "exif");
+      if (tiff.hasGps) addKind(removed, "gps");
+    } else if (type === "XMP ") {
+      addKind(removed, "xmp");
+    } else if (WEBP_IMAGE_CHUNKS.has(type)) {
+      kept.push(bytes.subarray(offset, end));
+    } else {
+      addKind(removed, "other");
+    }
+    offset = end;
+  }
+
+  if (riffEnd < bytes.length) addKind(removed, "other");
+
+  if (orientation > 1) kept.push(webpOrientationChunk(orientation));
+
+  const output = concat([bytes.subarray(0, 12), ...kept]);
+  const outputView = new DataView(output.buffer);
+  outputView.setUint32(4, output.length - 8, true);
+  // Only EXIF chunks exist in the extended format, so VP8X is present here
+  if (ascii(output, 12, 4) === "VP8X") {
+    output[20] &= ~0x0c;
+    if (orientation > 1) output[20] |= 0x08;
+  }
+
+  return { orientation, removed, bytes: output };
+}
+
+/**
+ * Finds EXIF (including GPS), XMP, IPTC and text metadata in a JPEG, PNG or
+ * WebP and returns a copy without it. Data after the end of the image and
+ * chunks that aren't needed to draw it go too, since appended images and
+ * videos carry their own location. The orientation tag is written back on
+ * its own so stripping never rotates the photo; unrecognised formats are
+ * returned unchanged.
+ */
+export function scanImageMetadata(bytes: Uint8Array): MetadataScan {
+  switch (sniffImageFormat(bytes)) {
+    case "jpeg":
+      return scanJpeg(bytes);
+    case "png":
+      return scanPng(bytes);
+    case "webp":
+      return scanWebp(bytes);
+    default:
+      return { orientation: 1, removed: [], bytes };
+  }
+}
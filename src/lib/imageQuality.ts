@@ -0,0 +1,123 @@
+import { FaceBoundingBox, QualityIssue, QualityReport } from "@/types";
+
+// Longest side of the copy the scores are computed on, so they don't
+// depend on the camera's resolution
+const ANALYSIS_SIZE = 512;
+
+const QUALITY_THRESHOLDS = {
+  MIN_SHARPNESS: 60,
+  MIN_BRIGHTNESS: 60,
+  MAX_BRIGHTNESS: 200,
+  MIN_FACE_RATIO: 0.15,
+  MIN_RESOLUTION: 256,
+};
+
+function grayscale(source: HTMLCanvasElement) {
+  const scale = Math.min(
+    1,
+    ANALYSIS_SIZE / Math.max(source.width, source.height)
+  );
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  ctx.drawImage(source, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] =
+      0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  return { luma, width, height };
+}
+
+function laplacianVariance(
+  luma: Float32Array,
+  width: number,
+  height: number
+): number {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value =
+        luma[i - 1] +
+        luma[i + 1] +
+        luma[i - width] +
+        luma[i + width] -
+        4 * luma[i];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+/**
+ * Scores blur, exposure, face size and resolution of an upright photo and
+ * lists what is likely to hurt the estimate. `faces` are in the canvas's
+ * pixel coordinates; face size is only judged when one was found.
+ */
+export function assessImageQuality(
+  source: HTMLCanvasElement,
+  faces: FaceBoundingBox[]
+): QualityReport {
+  const gray = grayscale(source);
+  const sharpness = gray
+    ? laplacianVariance(gray.luma, gray.width, gray.height)
+    : 0;
+  const brightness = gray
+    ? gray.luma.reduce((total, value) => total + value, 0) / gray.luma.length
+    : 0;
+
+  const shorterSide = Math.min(source.width, source.height);
+  const largestFace = Math.max(0, ...faces.map((face) => face.width));
+  const faceRatio = faces.length > 0 ? largestFace / shorterSide : null;
+  const resolution = shorterSide;
+
+  const issues: QualityIssue[] = [];
+  if (gray && sharpness < QUALITY_THRESHOLDS.MIN_SHARPNESS) {
+    issues.push({
+      code: "blurry",
+      message: "The photo is blurry. Hold the camera still or refocus.",
+    });
+  }
+  if (gray && brightness < QUALITY_THRESHOLDS.MIN_BRIGHTNESS) {
+    issues.push({
+      code: "too_dark",
+      message: "The photo is too dark. Try more light on the face.",
+    });
+  } else if (gray && brightness > QUALITY_THRESHOLDS.MAX_BRIGHTNESS) {
+    issues.push({
+      code: "too_bright",
+      message: "The photo is overexposed. Avoid direct light or flash.",
+    });
+  }
+  if (faceRatio !== null && faceRatio < QUALITY_THRESHOLDS.MIN_FACE_RATIO) {
+    issues.push({
+      code: "face_too_small",
+      message: "The face is too small. Move closer or crop the photo.",
+    });
+  }
+  if (resolution < QUALITY_THRESHOLDS.MIN_RESOLUTION) {
+    issues.push({
+      code: "low_resolution",
+      message: `The photo is only ${resolution}px on its shorter side. Use a larger photo.`,
+    });
+  }
+
+  return { sharpness, brightness, faceRatio, resolution, issues };
+}
@@ -0,0 +1,194 @@
+import { IMAGE_VALIDATION_CONFIG } from "./config";
+import { ImageValidationError } from "./errors";
+import { ImageFormat, ascii, sniffImageFormat } from "./imageFormat";
+
+export interface ImageInfo {
+  format: ImageFormat;
+  mimeType: string;
+  width: number;
+  height: number;
+  frames: number;
+}
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+};
+
+function corrupt(detail: string): never {
+  throw new ImageValidationError("CORRUPT_IMAGE", `Corrupt image: ${detail}`);
+}
+
+// Walk the marker segments until a start-of-frame header gives the size
+function readJpeg(bytes: Uint8Array, view: DataView) {
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) corrupt("invalid JPEG marker");
+    const marker = bytes[offset + 1];
+
+    // Fill bytes and markers without a length field
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    if (marker === 0xd9 || marker === 0xda) break;
+
+    const length = view.getUint16(offset + 2);
+    const isStartOfFrame =
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc;
+
+    if (isStartOfFrame) {
+      if (offset + 9 > bytes.length) break;
+      return {
+        height: view.getUint16(offset + 5),
+        width: view.getUint16(offset + 7),
+        frames: 1,
+      };
+    }
+    offset += 2 + length;
+  }
+  return corrupt("JPEG has no frame header");
+}
+
+// IHDR holds the size; an acTL chunk marks an animated PNG
+function readPng(bytes: Uint8Array, view: DataView) {
+  if (bytes.length < 33 || ascii(bytes, 12, 4) !== "IHDR") {
+    corrupt("PNG is missing its IHDR chunk");
+  }
+  const width = view.getUint32(16);
+  const height = view.getUint32(20);
+
+  let frames = 1;
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    if (type === "acTL" && offset + 12 <= bytes.length) {
+      frames = view.getUint32(offset + 8);
+    }
+    if (type === "IDAT" || type === "IEND") break;
+    offset += 12 + length;
+  }
+  return { width, height, frames };
+}
+
+function readWebp(bytes: Uint8Array, view: DataView) {
+  if (bytes.length < 30) corrupt("WebP header is truncated");
+  const chunk = ascii(bytes, 12, 4);
+
+  if (chunk === "VP8 ") {
+    // Lossy: the key frame start code is followed by 14-bit dimensions
+    if (bytes[23] !== 0x9d || bytes[24] !== 0x01 || bytes[25] !== 0x2a) {
+      corrupt("invalid VP8 frame header");
+    }
+    return {
+      width: view.getUint16(26, true) & 0x3fff,
+      height: view.getUint16(28, true) & 0x3fff,
+      frames: 1,
+    };
+  }
+
+  if (chunk === "VP8L") {
+    // Lossless: 14-bit width and height minus one, packed after the 0x2f signature
+    if (bytes[20] !== 0x2f) corrupt("invalid VP8L signature");
+    const bits = view.getUint32(21, true);
+    return {
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >> 14) & 0x3fff) + 1,
+      frames: 1,
+    };
+  }
+
+  if (chunk === "VP8X") {
+    // Extended: 24-bit canvas size; animations are made of ANMF chunks
+    const width = (view.getUint32(24, true) & 0xffffff) + 1;
+    const height = (view.getUint32(26, true) >>> 8) + 1;
+    const isAnimated = (bytes[20] & 0x02) !== 0;
+
+    let frames = isAnimated ? 0 : 1;
+    if (isAnimated) {
+      let offset = 12;
+      while (offset + 8 <= bytes.length) {
+        const size = view.getUint32(offset + 4, true);
+        if (ascii(bytes, offset, 4) === "ANMF") frames++;
+        offset += 8 + size + (size % 2);
+      }
+    }
+    return { width, height, frames };
+  }
+
+  return corrupt(`unknown WebP chunk "${chunk}"`);
+}
+
+/**
+ * Identifies an upload by its magic bytes and reads dimensions and frame
+ * count from the headers, without decoding any pixel data. Rejects anything
+ * that is not a JPEG, PNG or WebP within the configured limits.
+ */
+export function validateImage(buffer: ArrayBuffer): ImageInfo {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const format = sniffImageFormat(bytes);
+
+  if (!format) {
+    throw new ImageValidationError(
+      "UNSUPPORTED_FORMAT",
+      "File content is not a JPG, PNG, or WebP image.",
+      415
+    );
+  }
+
+  let header: { width: number; height: number; frames: number };
+  try {
+    header =
+      format === "jpeg"
+        ? readJpeg(bytes, view)
+        : format === "png"
+          ? readPng(bytes, view)
+          : readWebp(bytes, view);
+  } catch (error) {
+    // DataView throws RangeError when a header points past the end of the file
+    if (error instanceof RangeError) corrupt("image header is truncated");
+    throw error;
+  }
+
+  const { width, height, frames } = header;
+  const config = IMAGE_VALIDATION_CONFIG;
+
+  if (width === 0 || height === 0) corrupt("image has no pixels");
+  if (width < config.MIN_DIMENSION || height < config.MIN_DIMENSION) {
+    throw new ImageValidationError(
+      "IMAGE_TOO_SMALL",
+      `Image is ${width}x${height}. Both sides must be at least ${config.MIN_DIMENSION}px.`
+    );
+  }
+  if (width > config.MAX_DIMENSION || height > config.MAX_DIMENSION) {
+    throw new ImageValidationError(
+      "IMAGE_TOO_LARGE",
+      `Image is ${width}x${height}. Neither side may exceed ${config.MAX_DIMENSION}px.`
+    );
+  }
+  if (width * height > config.MAX_PIXELS) {
+    throw new ImageValidationError(
+      "TOO_MANY_PIXELS",
+      `Image has ${width * height} pixels, the limit is ${config.MAX_PIXELS}.`
+    );
+  }
+  if (frames > config.MAX_FRAMES) {
+    throw new ImageValidationError(
+      "TOO_MANY_FRAMES",
+      "Animated images are not supported. Please upload a still photo."
+    );
+  }
+
+  return { format, mimeType: MIME_TYPES[format], width, height, frames };
+}
@@ -0,0 +1,98 @@
+import { RESILIENCE_CONFIG } from "../config";
+import {
+  CircuitOpenError,
+  InferenceBackendError,
+  InferenceTimeoutError,
+} from "../errors";
+import { isCallerAbort, isConnectionError } from "./retry";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+// Only failures that say something about backend health trip the breaker
+function isBackendFailure(error: unknown): boolean {
+  if (isConnectionError(error)) return true;
+  if (error instanceof InferenceTimeoutError) return true;
+  return (
+    error instanceof InferenceBackendError &&
+    error.code === "BACKEND_ERROR" &&
+    error.status >= 500
+  );
+}
+
+/**
+ * Closed: calls pass through and consecutive failures are counted.
+ * Open: calls fail fast with CircuitOpenError until the cool-down ends.
+ * Half-open: a single trial call decides whether to close or re-open.
+ */
+export class CircuitBreaker {
+  private currentState: CircuitState = "closed";
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly failureThreshold = RESILIENCE_CONFIG.BREAKER_FAILURE_THRESHOLD,
+    private readonly openMs = RESILIENCE_CONFIG.BREAKER_OPEN_MS
+  ) {}
+
+  get state(): CircuitState {
+    if (
+      this.currentState === "open" &&
+      Date.now() - this.openedAt >= this.openMs
+    ) {
+      this.transition("half-open");
+    }
+    return this.currentState;
+  }
+
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    const state = this.state;
+    if (state === "open" || (state === "half-open" && this.trialInFlight)) {
+      throw new CircuitOpenError(
+        Math.max(0, this.openMs - (Date.now() - this.openedAt))
+      );
+    }
+
+    const isTrial = state === "half-open";
+    if (isTrial) this.trialInFlight = true;
+
+    try {
+      const result = await operation();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (isBackendFailure(error)) {
+        this.onFailure(isTrial);
+      } else if (isTrial && !isCallerAbort(error)) {
+        // The backend answered, so it is healthy even if this request failed
+        this.onSuccess();
+      }
+      throw error;
+    } finally {
+      if (isTrial) this.trialInFlight = false;
+    }
+  }
+
+  private onSuccess() {
+    this.failures = 0;
+    if (this.currentState !== "closed") this.transition("closed");
+  }
+
+  private onFailure(isTrial: boolean) {
+    this.failures++;
+    if (isTrial || this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+      this.transition("open");
+    }
+  }
+
+  private transition(next: CircuitState) {
+    if (next === this.currentState && next !== "open") return;
+    console.warn(
+      `Circuit breaker "${this.name}": ${this.currentState} -> ${next}` +
+        (next === "open" ? ` after ${this.failures} failure(s)` : "")
+    );
+    this.currentState = next;
+  }
+}
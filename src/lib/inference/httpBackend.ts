@@ -0,0 +1,58 @@
+import { AgeDetectionResult } from "@/types";
+import { InferenceBackendError, ResponseNormalizationError } from "../errors";
+import { responseNormalizer } from "../responseNormalizer";
+import { BackendProbeResult } from "./types";
+
+// Shared response handling for the HTTP based adapters
+export async function readBackendResponse(
+  response: Response,
+  backendName: string
+): Promise<AgeDetectionResult> {
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`${backendName} Error:`, response.status, errorText);
+    throw new InferenceBackendError(
+      "BACKEND_ERROR",
+      response.status === 500 ? "Internal server error" : "API unavailable",
+      response.status
+    );
+  }
+
+  let rawResult;
+  try {
+    rawResult = await response.json();
+  } catch {
+    throw new ResponseNormalizationError(
+      "INVALID_PAYLOAD",
+      "Backend response is not valid JSON"
+    );
+  }
+  return responseNormalizer.transformApiResponse(rawResult);
+}
+
+// GET a health endpoint and pick up a version field if the backend sends one
+export async function probeHealthEndpoint(
+  url: string,
+  signal: AbortSignal
+): Promise<BackendProbeResult> {
+  if (!url) {
+    throw new InferenceBackendError(
+      "BACKEND_MISCONFIGURED",
+      "No health endpoint configured",
+      500
+    );
+  }
+
+  const response = await fetch(url, { signal, cache: "no-store" });
+  if (!response.ok) {
+    throw new InferenceBackendError(
+      "BACKEND_ERROR",
+      `Health check returned ${response.status}`,
+      503
+    );
+  }
+
+  const body = await response.json().catch(() => null);
+  const version = body?.version ?? body?.model_version;
+  return { version: typeof version === "string" ? version : null };
+}
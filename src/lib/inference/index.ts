@@ -0,0 +1,39 @@
+import { INFERENCE_CONFIG } from "../config";
+import { JsonHttpAdapter } from "./jsonHttpAdapter";
+import { MockAdapter } from "./mockAdapter";
+import { OnnxAdapter } from "./onnxAdapter";
+import { PythonApiAdapter } from "./pythonApiAdapter";
+import { ResilientAdapter } from "./resilientAdapter";
+import { InferenceAdapter } from "./types";
+
+export type { CircuitState } from "./circuitBreaker";
+
+export type {
+  BackendProbeResult,
+  InferenceAdapter,
+  InferenceOptions,
+} from "./types";
+
+function createAdapter(): InferenceAdapter {
+  switch (INFERENCE_CONFIG.BACKEND) {
+    case "http-json":
+      return new JsonHttpAdapter();
+    case "onnx":
+      return new OnnxAdapter();
+    case "mock":
+      return new MockAdapter();
+    default:
+      return new PythonApiAdapter();
+  }
+}
+
+let adapter: ResilientAdapter | null = null;
+
+// The adapter is chosen by INFERENCE_BACKEND and reused for the process lifetime,
+// so its circuit breaker state is shared by every request
+export function getInferenceAdapter(): ResilientAdapter {
+  if (!adapter) {
+    adapter = new ResilientAdapter(createAdapter());
+  }
+  return adapter;
+}
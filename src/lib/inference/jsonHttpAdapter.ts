@@ -0,0 +1,64 @@
+import { AgeDetectionResult } from "@/types";
+import { INFERENCE_CONFIG } from "../config";
+import { InferenceBackendError } from "../errors";
+import { probeHealthEndpoint, readBackendResponse } from "./httpBackend";
+import {
+  BackendProbeResult,
+  InferenceAdapter,
+  InferenceOptions,
+} from "./types";
+
+/**
+ * Generic HTTP model server taking `{ image_base64, mime_type }` as JSON.
+ * The response is expected to use the same fields as the Python API.
+ */
+export class JsonHttpAdapter implements InferenceAdapter {
+  readonly name = "http-json";
+
+  constructor(
+    private readonly url = INFERENCE_CONFIG.HTTP_JSON.URL,
+    private readonly apiKey = INFERENCE_CONFIG.HTTP_JSON.API_KEY,
+    private readonly healthUrl = INFERENCE_CONFIG.HTTP_JSON.HEALTH_URL
+  ) {}
+
+  probe({ signal }: InferenceOptions): Promise<BackendProbeResult> {
+    return probeHealthEndpoint(this.healthUrl, signal);
+  }
+
+  async detect(
+    image: File,
+    { signal }: InferenceOptions
+  ): Promise<AgeDetectionResult> {
+    if (!this.url) {
+      throw new InferenceBackendError(
+        "BACKEND_MISCONFIGURED",
+        "INFERENCE_HTTP_URL is not set",
+        500
+      );
+    }
+
+    const imageBase64 = Buffer.from(await image.arrayBuffer()).toString(
+      "base64"
+    );
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    console.log("Connecting to JSON inference API:", this.url);
+
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        image_base64: imageBase64,
+        mime_type: image.type,
+      }),
+      signal,
+    });
+
+    return readBackendResponse(response, "JSON inference API");
+  }
+}
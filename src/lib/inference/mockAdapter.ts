@@ -0,0 +1,138 @@
+import { createHash } from "crypto";
+import { AgeDetectionResult, RawApiResponse, RawFaceResponse } from "@/types";
+import { INFERENCE_CONFIG, MockScenario } from "../config";
+import { InferenceBackendError } from "../errors";
+import { responseNormalizer } from "../responseNormalizer";
+import { sleep } from "./retry";
+import {
+  BackendProbeResult,
+  InferenceAdapter,
+  InferenceOptions,
+} from "./types";
+
+// Client uploads are downscaled to 512px, used when sharp cannot read the size
+const FALLBACK_IMAGE_SIZE = { width: 512, height: 512 };
+
+async function readImageSize(buffer: Buffer) {
+  try {
+    const sharp = (await import("sharp")).default;
+    const { width, height } = await sharp(buffer).metadata();
+    if (width && height) return { width, height };
+  } catch {
+    // sharp is optional, fall through to the default size
+  }
+  return FALLBACK_IMAGE_SIZE;
+}
+
+// Every value is read from the image hash, so the same photo gives the same answer
+function mockFace(hash: Buffer, offset: number): Omit<RawFaceResponse, "bbox"> {
+  const rawPrediction = 18 + (hash[offset] / 255) * 50;
+  return {
+    age: Math.round(rawPrediction),
+    raw_prediction: Number(rawPrediction.toFixed(4)),
+    confidence: Number((0.6 + (hash[offset + 1] / 255) * 0.39).toFixed(2)),
+    gender: hash[offset + 2] % 2 === 0 ? "male" : "female",
+  };
+}
+
+/**
+ * Offline stand-in for the model server, enabled with INFERENCE_BACKEND=mock.
+ * MOCK_SCENARIO picks the behaviour: single-face, multiple-faces, no-face,
+ * slow (waits MOCK_DELAY_MS), server-error or malformed.
+ */
+export class MockAdapter implements InferenceAdapter {
+  readonly name = "mock";
+
+  constructor(
+    private readonly scenario: MockScenario = INFERENCE_CONFIG.MOCK.SCENARIO,
+    private readonly delayMs = INFERENCE_CONFIG.MOCK.DELAY_MS
+  ) {}
+
+  async probe(): Promise<BackendProbeResult> {
+    if (this.scenario === "server-error") {
+      throw new InferenceBackendError(
+        "BACKEND_ERROR",
+        "Mock backend is in the server-error scenario",
+        503
+      );
+    }
+    return { version: `mock (${this.scenario})` };
+  }
+
+  async detect(
+    image: File,
+    { signal, onInferenceStarted }: InferenceOptions
+  ): Promise<AgeDetectionResult> {
+    const buffer = Buffer.from(await image.arrayBuffer());
+    const hash = createHash("sha256").update(buffer).digest();
+    onInferenceStarted?.();
+
+    switch (this.scenario) {
+      case "server-error":
+        throw new InferenceBackendError(
+          "BACKEND_ERROR",
+          "Internal server error",
+          500
+        );
+      case "malformed":
+        // A wrongly typed age, as a broken backend build might send
+        return responseNormalizer.transformApiResponse({
+          success: true,
+          result: { age: "unknown" },
+        } as unknown as RawApiResponse);
+      case "no-face":
+        return responseNormalizer.transformApiResponse({
+          success: false,
+          error: "No face detected in the image",
+        });
+      case "slow":
+        await sleep(this.delayMs, signal);
+        break;
+    }
+
+    const { width, height } = await readImageSize(buffer);
+    const facesCount =
+      this.scenario === "multiple-faces" ? 2 + (hash[0] % 3) : 1;
+    const faceSize = Math.round(Math.min(width / facesCount, height) * 0.6);
+
+    const faces: RawFaceResponse[] = Array.from(
+      { length: facesCount },
+      (_, index) => {
+        const slotWidth = width / facesCount;
+        // Jitter each face a little inside its slot
+        const jitter = (hash[20 + index] / 255 - 0.5) * faceSize * 0.2;
+        return {
+          bbox: [
+            Math.round(slotWidth * index + (slotWidth - faceSize) / 2 + jitter),
+            Math.round((height - faceSize) / 2 + jitter),
+            faceSize,
+            faceSize,
+          ],
+          ...mockFace(hash, index * 3),
+        };
+      }
+    );
+    const primary = faces[0];
+
+    return responseNormalizer.transformApiResponse({
+      success: true,
+      result: {
+        age: primary.age,
+        raw_prediction: primary.raw_prediction,
+        confidence: primary.confidence,
+        gender: primary.gender,
+        message: `Mock detection (${this.scenario})`,
+        method: "Mock Backend",
+        model_info: {
+          input_size: `${width}x${height}`,
+          scaling_factor: 1,
+          range_margin: 3,
+        },
+        timestamp: new Date().toISOString(),
+        face_detected: true,
+        faces_count: facesCount,
+        faces,
+      },
+    });
+  }
+}
@@ -0,0 +1,120 @@
+import type { InferenceSession } from "onnxruntime-node";
+import { AgeDetectionResult } from "@/types";
+import { INFERENCE_CONFIG } from "../config";
+import { InferenceBackendError } from "../errors";
+import { responseNormalizer } from "../responseNormalizer";
+import {
+  BackendProbeResult,
+  InferenceAdapter,
+  InferenceOptions,
+} from "./types";
+
+// Both runtimes are optional dependencies, so load them lazily
+async function loadRuntime() {
+  try {
+    const [ort, sharp] = await Promise.all([
+      import("onnxruntime-node"),
+      import("sharp"),
+    ]);
+    return { ort, sharp: sharp.default };
+  } catch (error) {
+    console.error("Failed to load ONNX runtime:", error);
+    throw new InferenceBackendError(
+      "BACKEND_MISCONFIGURED",
+      "onnxruntime-node and sharp must be installed for the ONNX backend",
+      500
+    );
+  }
+}
+
+/**
+ * Runs a single-output age regression model in-process. The image is
+ * resized to a square input and scaled to [0, 1]; the first output value
+ * times `ONNX_SCALING_FACTOR` is the predicted age.
+ */
+export class OnnxAdapter implements InferenceAdapter {
+  readonly name = "onnx";
+  private session: Promise<InferenceSession> | null = null;
+
+  constructor(private readonly config = INFERENCE_CONFIG.ONNX) {}
+
+  private getSession(): Promise<InferenceSession> {
+    if (!this.config.MODEL_PATH) {
+      throw new InferenceBackendError(
+        "BACKEND_MISCONFIGURED",
+        "ONNX_MODEL_PATH is not set",
+        500
+      );
+    }
+    if (!this.session) {
+      this.session = loadRuntime()
+        .then(({ ort }) => ort.InferenceSession.create(this.config.MODEL_PATH))
+        .catch((error) => {
+          // Allow the next request to retry loading the model
+          this.session = null;
+          throw error;
+        });
+    }
+    return this.session;
+  }
+
+  // Ready once the model has loaded; the runtime version doubles as backend version
+  async probe(): Promise<BackendProbeResult> {
+    await this.getSession();
+    const { ort } = await loadRuntime();
+    return { version: `onnxruntime ${ort.env.versions.common}` };
+  }
+
+  async detect(
+    image: File,
+    { signal, onInferenceStarted }: InferenceOptions
+  ): Promise<AgeDetectionResult> {
+    const session = await this.getSession();
+    const { ort, sharp } = await loadRuntime();
+    const size = this.config.INPUT_SIZE;
+
+    const pixels = await sharp(Buffer.from(await image.arrayBuffer()))
+      .removeAlpha()
+      .resize(size, size, { fit: "cover" })
+      .raw()
+      .toBuffer();
+
+    const input = new Float32Array(3 * size * size);
+    for (let i = 0; i < size * size; i++) {
+      for (let channel = 0; channel < 3; channel++) {
+        const value = pixels[i * 3 + channel] / 255;
+        if (this.config.INPUT_LAYOUT === "nchw") {
+          input[channel * size * size + i] = value;
+        } else {
+          input[i * 3 + channel] = value;
+        }
+      }
+    }
+    const dims =
+      this.config.INPUT_LAYOUT === "nchw"
+        ? [1, 3, size, size]
+        : [1, size, size, 3];
+
+    signal.throwIfAborted();
+    onInferenceStarted?.();
+
+    const outputs = await session.run({
+      [session.inputNames[0]]: new ort.Tensor("float32", input, dims),
+    });
+    const prediction = Number(outputs[session.outputNames[0]].data[0]);
+
+    return responseNormalizer.transformApiResponse({
+      success: true,
+      result: {
+        age: Math.round(prediction * this.config.SCALING_FACTOR),
+        raw_prediction: prediction,
+        method: "ONNX Runtime (Node)",
+        model_info: {
+          input_size: `${size}x${size}`,
+          scaling_factor: this.config.SCALING_FACTOR,
+        },
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+}
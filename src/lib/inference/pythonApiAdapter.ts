@@ -0,0 +1,40 @@
+import { AgeDetectionResult } from "@/types";
+import { INFERENCE_CONFIG } from "../config";
+import { probeHealthEndpoint, readBackendResponse } from "./httpBackend";
+import {
+  BackendProbeResult,
+  InferenceAdapter,
+  InferenceOptions,
+} from "./types";
+
+// The original Python service: multipart POST with an `image` field
+export class PythonApiAdapter implements InferenceAdapter {
+  readonly name = "python";
+
+  constructor(
+    private readonly url = INFERENCE_CONFIG.PYTHON_API_URL,
+    private readonly healthUrl = INFERENCE_CONFIG.PYTHON_HEALTH_URL
+  ) {}
+
+  probe({ signal }: InferenceOptions): Promise<BackendProbeResult> {
+    return probeHealthEndpoint(this.healthUrl, signal);
+  }
+
+  async detect(
+    image: File,
+    { signal }: InferenceOptions
+  ): Promise<AgeDetectionResult> {
+    const pythonFormData = new FormData();
+    pythonFormData.append("image", image);
+
+    console.log("Connecting to Python API:", this.url);
+
+    const response = await fetch(this.url, {
+      method: "POST",
+      body: pythonFormData,
+      signal,
+    });
+
+    return readBackendResponse(response, "Python API");
+  }
+}
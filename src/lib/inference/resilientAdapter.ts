@@ -0,0 +1,34 @@
+import { AgeDetectionResult } from "@/types";
+import { CircuitBreaker } from "./circuitBreaker";
+import { withRetry } from "./retry";
+import {
+  BackendProbeResult,
+  InferenceAdapter,
+  InferenceOptions,
+} from "./types";
+
+// Wraps any adapter with retries inside a circuit breaker
+export class ResilientAdapter implements InferenceAdapter {
+  readonly name: string;
+  readonly breaker: CircuitBreaker;
+
+  constructor(private readonly inner: InferenceAdapter) {
+    this.name = inner.name;
+    this.breaker = new CircuitBreaker(inner.name);
+  }
+
+  detect(image: File, options: InferenceOptions): Promise<AgeDetectionResult> {
+    return this.breaker.execute(() =>
+      withRetry(
+        () => this.inner.detect(image, options),
+        options.signal,
+        `${this.name} backend`
+      )
+    );
+  }
+
+  // Probes bypass the breaker so readiness reflects the backend itself
+  probe(options: InferenceOptions): Promise<BackendProbeResult> {
+    return this.inner.probe(options);
+  }
+}
@@ -0,0 +1,78 @@
+import { RESILIENCE_CONFIG } from "../config";
+import { InferenceBackendError } from "../errors";
+
+// Statuses that mean "try again shortly" rather than "this request is bad"
+const RETRYABLE_STATUSES = [502, 503, 504];
+
+export function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timeoutId = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timeoutId);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+}
+
+// The caller gave up (a cancelled job, a closed stream); says nothing about
+// the backend. Timeouts abort with an InferenceTimeoutError instead.
+export function isCallerAbort(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
+
+export function isConnectionError(error: unknown): boolean {
+  return error instanceof TypeError && error.message.includes("fetch");
+}
+
+export function isRetryableError(error: unknown): boolean {
+  if (isConnectionError(error)) return true;
+  return (
+    error instanceof InferenceBackendError &&
+    RETRYABLE_STATUSES.includes(error.status)
+  );
+}
+
+// Full jitter: a random delay up to the exponential backoff ceiling
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(
+    RESILIENCE_CONFIG.RETRY_MAX_DELAY_MS,
+    RESILIENCE_CONFIG.RETRY_BASE_DELAY_MS * 2 ** attempt
+  );
+  return Math.round(Math.random() * ceiling);
+}
+
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  signal: AbortSignal,
+  label: string
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (
+        signal.aborted ||
+        isCallerAbort(error) ||
+        attempt >= RESILIENCE_CONFIG.MAX_RETRIES ||
+        !isRetryableError(error)
+      ) {
+        throw error;
+      }
+
+      const delay = backoffDelay(attempt);
+      console.warn(
+        `${label} failed (attempt ${attempt + 1}), retrying in ${delay}ms:`,
+        error instanceof Error ? error.message : error
+      );
+      await sleep(delay, signal);
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { AgeDetectionResult } from "@/types";
+
+export interface InferenceOptions {
+  signal: AbortSignal;
+  // Called by adapters that can tell when the model itself starts running
+  onInferenceStarted?: () => void;
+}
+
+export interface BackendProbeResult {
+  version: string | null;
+}
+
+/**
+ * A model backend behind `/api/detect-age`. Adapters own the transport and
+ * map whatever their model returns into an `AgeDetectionResult`.
+ */
+export interface InferenceAdapter {
+  readonly name: string;
+  detect(image: File, options: InferenceOptions): Promise<AgeDetectionResult>;
+  // Resolves when the backend can serve predictions, rejects otherwise
+  probe(options: InferenceOptions): Promise<BackendProbeResult>;
+}
@@ -0,0 +1,30 @@
+import { CLIENT_KEY_HEADER } from "../config";
+import { JobManager, JobState, createJobState } from "./jobManager";
+
+export type { JobState } from "./jobManager";
+export { JobManager, createJobState } from "./jobManager";
+export { WorkQueue } from "./workQueue";
+
+// Route handlers can be bundled apart, each with its own copy of this module
+// and of the error classes, so only the jobs and the queue are shared
+// through globalThis while every copy keeps its own manager
+const globalForJobs = globalThis as typeof globalThis & {
+  jobState?: JobState;
+};
+
+let manager: JobManager | null = null;
+
+export function getJobManager(): JobManager {
+  if (!globalForJobs.jobState) {
+    globalForJobs.jobState = createJobState();
+  }
+  if (!manager) {
+    manager = new JobManager(globalForJobs.jobState);
+  }
+  return manager;
+}
+
+// Jobs belong to the caller the middleware identified
+export function getJobOwner(request: Request): string {
+  return request.headers.get(CLIENT_KEY_HEADER) ?? "unknown";
+}
@@ -0,0 +1,324 @@
+import { randomUUID } from "crypto";
+import {
+  DetectionFailure,
+  DetectResponse,
+  JobItemStatus,
+  JobReport,
+  JobStatus,
+  MetadataKind,
+} from "@/types";
+import { JOB_CONFIG } from "../config";
+import { JobError, RequestValidationError } from "../errors";
+import {
+  describeDetectionError,
+  prepareUpload,
+  runDetection,
+  toDetectResponse,
+} from "../detection";
+import { WorkQueue } from "./workQueue";
+
+// Expired jobs are swept at most this often
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface JobItemEntry {
+  fileName: string;
+  status: JobItemStatus;
+  // Dropped once the item has run, only its outcome is kept
+  image: File | null;
+  metadataRemoved: MetadataKind[];
+  result: DetectResponse | null;
+  error: DetectionFailure | null;
+}
+
+export interface Job {
+  id: string;
+  // Client key of the caller that created it, the only one who can see it
+  owner: string;
+  createdAt: number;
+  finishedAt: number | null;
+  cancelled: boolean;
+  // Aborts the running items when the job is cancelled
+  controller: AbortController;
+  items: JobItemEntry[];
+}
+
+// Jobs and the queue, shared by every JobManager in the process
+export interface JobState {
+  jobs: Map<string, Job>;
+  queue: WorkQueue;
+  queuedItems: number;
+  // Uploads being read plus the images of unfinished items
+  heldBytes: number;
+  lastSweep: number;
+}
+
+export function createJobState(concurrency = JOB_CONFIG.CONCURRENCY): JobState {
+  return {
+    jobs: new Map(),
+    queue: new WorkQueue(concurrency),
+    queuedItems: 0,
+    heldBytes: 0,
+    lastSweep: Date.now(),
+  };
+}
+
+function uploadName(upload: FormDataEntryValue, index: number): string {
+  return typeof upload !== "string" && upload.name
+    ? upload.name
+    : `image-${index + 1}`;
+}
+
+function jobStatus(job: Job, counts: JobReport["counts"]): JobStatus {
+  if (job.cancelled) return "cancelled";
+  if (job.finishedAt !== null) return "completed";
+  return counts.queued === job.items.length ? "queued" : "running";
+}
+
+/**
+ * Detection jobs kept in memory. Items from every job share one queue, so
+ * JOB_CONCURRENCY caps the load on the inference backend however many
+ * jobs are waiting. A finished job is forgotten JOB_TTL_MS later.
+ */
+export class JobManager {
+  constructor(
+    private readonly state: JobState,
+    private readonly maxItems = JOB_CONFIG.MAX_ITEMS,
+    private readonly maxQueuedItems = JOB_CONFIG.MAX_QUEUED_ITEMS,
+    private readonly maxQueuedBytes = JOB_CONFIG.MAX_QUEUED_BYTES,
+    private readonly ttlMs = JOB_CONFIG.TTL_MS
+  ) {}
+
+  /**
+   * Sets `bytes` aside for an upload before it is read, so uploads arriving
+   * together can't all pass the check and then exhaust memory. Call the
+   * returned function once the upload has been turned into a job or dropped.
+   */
+  reserve(bytes: number): () => void {
+    if (this.state.heldBytes + bytes > this.maxQueuedBytes) {
+      throw new JobError(
+        "QUEUE_FULL",
+        "Too many images are waiting. Please try again later.",
+        503
+      );
+    }
+
+    this.state.heldBytes += bytes;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.state.heldBytes -= bytes;
+    };
+  }
+
+  /**
+   * Checks every upload and queues the ones that pass. The others become
+   * failed items right away, so one bad file doesn't reject the job.
+   */
+  async create(
+    uploads: FormDataEntryValue[],
+    owner: string
+  ): Promise<JobReport> {
+    this.sweep();
+    if (uploads.length === 0) {
+      throw new RequestValidationError(
+        "MISSING_IMAGE",
+        "At least one image is required",
+        "image"
+      );
+    }
+    if (uploads.length > this.maxItems) {
+      throw new RequestValidationError(
+        "INVALID_FIELD",
+        `A job takes at most ${this.maxItems} images`,
+        "image"
+      );
+    }
+    if (this.state.queuedItems + uploads.length > this.maxQueuedItems) {
+      throw new JobError(
+        "QUEUE_FULL",
+        "Too many images are waiting. Please try again later.",
+        503
+      );
+    }
+    // Counted before the uploads are checked, so jobs created at the same
+    // time can't all pass the limit; the failed ones are given back below
+    this.state.queuedItems += uploads.length;
+
+    let items: JobItemEntry[];
+    try {
+      items = await this.prepareItems(uploads);
+    } catch (error) {
+      this.state.queuedItems -= uploads.length;
+      throw error;
+    }
+    this.state.queuedItems -= items.filter(
+      (item) => item.status !== "queued"
+    ).length;
+
+    const job: Job = {
+      id: randomUUID(),
+      owner,
+      createdAt: Date.now(),
+      finishedAt: null,
+      cancelled: false,
+      controller: new AbortController(),
+      items,
+    };
+    this.state.jobs.set(job.id, job);
+
+    for (const item of items) {
+      if (item.status !== "queued") continue;
+      this.state.heldBytes += item.image?.size ?? 0;
+      this.state.queue.push(() => this.runItem(job, item));
+    }
+    this.finishIfDone(job);
+    return this.report(job);
+  }
+
+  get(id: string, owner: string): JobReport {
+    this.sweep();
+    return this.report(this.find(id, owner));
+  }
+
+  // Stops the items that haven't finished; results already in are kept
+  cancel(id: string, owner: string): JobReport {
+    this.sweep();
+    const job = this.find(id, owner);
+    if (job.finishedAt !== null) return this.report(job);
+
+    job.cancelled = true;
+    for (const item of job.items) {
+      if (item.status === "queued") this.state.queuedItems--;
+      if (item.status === "queued" || item.status === "running") {
+        item.status = "cancelled";
+        this.releaseImage(item);
+      }
+    }
+    job.controller.abort();
+    this.finishIfDone(job);
+    return this.report(job);
+  }
+
+  // An upload that fails the checks becomes a failed item
+  private async prepareItems(
+    uploads: FormDataEntryValue[]
+  ): Promise<JobItemEntry[]> {
+    const items: JobItemEntry[] = [];
+    for (const [index, upload] of uploads.entries()) {
+      const item: JobItemEntry = {
+        fileName: uploadName(upload, index),
+        status: "queued",
+        image: null,
+        metadataRemoved: [],
+        result: null,
+        error: null,
+      };
+      try {
+        const prepared = await prepareUpload(upload);
+        item.image = prepared.image;
+        item.metadataRemoved = prepared.metadataRemoved;
+      } catch (error) {
+        item.status = "failed";
+        item.error = await describeDetectionError(error);
+      }
+      items.push(item);
+    }
+    return items;
+  }
+
+  private async runItem(job: Job, item: JobItemEntry) {
+    // Cancelled while it was waiting
+    if (item.status !== "queued" || !item.image) return;
+    this.state.queuedItems--;
+    item.status = "running";
+
+    try {
+      const result = await runDetection(item.image, {
+        signal: job.controller.signal,
+      });
+      const response = toDetectResponse(result, item.metadataRemoved);
+      if (item.status === "running") {
+        item.status = "done";
+        item.result = response;
+      }
+    } catch (error) {
+      const failure = await describeDetectionError(error);
+      if (item.status === "running") {
+        item.status = "failed";
+        item.error = failure;
+      }
+    } finally {
+      this.releaseImage(item);
+      this.finishIfDone(job);
+    }
+  }
+
+  private releaseImage(item: JobItemEntry) {
+    if (!item.image) return;
+    this.state.heldBytes -= item.image.size;
+    item.image = null;
+  }
+
+  private finishIfDone(job: Job) {
+    if (job.finishedAt !== null) return;
+    const pending = job.items.some(
+      (item) => item.status === "queued" || item.status === "running"
+    );
+    if (!pending) job.finishedAt = Date.now();
+  }
+
+  // Someone else's job answers like a missing one, so ids can't be probed
+  private find(id: string, owner: string): Job {
+    const job = this.state.jobs.get(id);
+    if (!job || job.owner !== owner || this.isExpired(job, Date.now())) {
+      throw new JobError("JOB_NOT_FOUND", "Job not found or expired", 404);
+    }
+    return job;
+  }
+
+  private isExpired(job: Job, now: number): boolean {
+    return job.finishedAt !== null && job.finishedAt + this.ttlMs <= now;
+  }
+
+  private report(job: Job): JobReport {
+    const counts: JobReport["counts"] = {
+      queued: 0,
+      running: 0,
+      done: 0,
+      failed: 0,
+      cancelled: 0,
+    };
+    for (const item of job.items) counts[item.status]++;
+
+    return {
+      success: true,
+      id: job.id,
+      status: jobStatus(job, counts),
+      created_at: new Date(job.createdAt).toISOString(),
+      finished_at:
+        job.finishedAt === null ? null : new Date(job.finishedAt).toISOString(),
+      expires_at:
+        job.finishedAt === null
+          ? null
+          : new Date(job.finishedAt + this.ttlMs).toISOString(),
+      counts,
+      items: job.items.map((item, index) => ({
+        index,
+        file_name: item.fileName,
+        status: item.status,
+        result: item.result,
+        error: item.error,
+      })),
+    };
+  }
+
+  private sweep() {
+    const now = Date.now();
+    if (now - this.state.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.state.lastSweep = now;
+    for (const [id, job] of this.state.jobs) {
+      if (this.isExpired(job, now)) this.state.jobs.delete(id);
+    }
+  }
+}
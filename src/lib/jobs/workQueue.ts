@@ -0,0 +1,31 @@
+type Task = () => Promise<void>;
+
+/**
+ * First in, first out task runner with at most `concurrency` tasks running.
+ * Tasks handle their own errors; anything that escapes is only logged so
+ * one bad task can't stall the queue.
+ */
+export class WorkQueue {
+  private readonly waiting: Task[] = [];
+  private running = 0;
+
+  constructor(private readonly concurrency: number) {}
+
+  push(task: Task) {
+    this.waiting.push(task);
+    this.drain();
+  }
+
+  private drain() {
+    while (this.running < this.concurrency && this.waiting.length > 0) {
+      const task = this.waiting.shift() as Task;
+      this.running++;
+      task()
+        .catch((error) => console.error("Queued task failed:", error))
+        .finally(() => {
+          this.running--;
+          this.drain();
+        });
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { z } from "zod";
+import { apiSchemas } from "./schemas";
+
+const ref = (id: string) => ({ $ref: `#/components/schemas/${id}` });
+
+function errorResponse(description: string) {
+  return {
+    description,
+    content: { "application/json": { schema: ref("ErrorResponse") } },
+  };
+}
+
+// Per-document keys JSON Schema adds, which don't belong in a component
+const DOCUMENT_KEYS = ["$schema", "$id"];
+
+function componentSchemas() {
+  const { schemas } = z.toJSONSchema(apiSchemas, {
+    uri: (id) => `#/components/schemas/${id}`,
+  });
+  return Object.fromEntries(
+    Object.entries(schemas).map(([id, schema]) => [
+      id,
+      Object.fromEntries(
+        Object.entries(schema).filter(([key]) => !DOCUMENT_KEYS.includes(key))
+      ),
+    ])
+  );
+}
+
+/**
+ * OpenAPI 3.1 description of the v1 API, generated from the same schemas
+ * the routes validate with.
+ */
+export function buildOpenApiDocument(serverUrl: string) {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "AI Age Detector API",
+      version: "1.0.0",
+      description:
+        "Browsers on an allowed origin can call the API directly; other callers send an API key.",
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ apiKey: [] }, { bearer: [] }],
+    paths: {
+      "/api/v1/detect": {
+        post: {
+          operationId: "detectAge",
+          summary: "Estimate the age of the faces in a photo",
+          description:
+            "Send `Accept: text/event-stream` to get progress as Server-Sent Events: `received`, `validated`, `forwarded`, `inference_started` when the backend reports it, then `result` with the DetectResponse or `error` with the ErrorResponse plus the HTTP `status` it stands for.",
+          requestBody: {
+            required: true,
+            content: {
+              "multipart/form-data": { schema: ref("DetectRequest") },
+              "application/json": { schema: ref("DetectJsonRequest") },
+            },
+          },
+          responses: {
+            "200": {
+              description: "Age estimate",
+              content: {
+                "application/json": { schema: ref("DetectResponse") },
+                "text/event-stream": { schema: { type: "string" } },
+              },
+            },
+            "400": errorResponse(
+              "Missing, unsupported, corrupt or out of bounds image, or an image URL that isn't allowed"
+            ),
+            "401": { description: "No API key and no allowed origin" },
+            "408": errorResponse("The backend took too long"),
+            "422": errorResponse(
+              "The backend gave no estimate, usually because it found no face"
+            ),
+            "429": errorResponse("Rate limit exceeded, see Retry-After"),
+            "502": errorResponse(
+              "The backend or the image URL failed or answered nonsense"
+            ),
+            "503": errorResponse("The backend is unavailable"),
+            "504": errorResponse("Fetching the image URL took too long"),
+          },
+        },
+      },
+    },
+    components: {
+      schemas: componentSchemas(),
+      securitySchemes: {
+        apiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+        bearer: { type: "http", scheme: "bearer" },
+      },
+    },
+  };
+}
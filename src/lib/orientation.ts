@@ -0,0 +1,144 @@
+import { scanImageMetadata } from "./imageMetadata";
+import { MetadataKind } from "@/types";
+
+// A 2x1 JPEG tagged with orientation 6 (rotate 90deg clockwise)
+const ROTATED_TEST_IMAGE =
+  "data:image/jpeg;base64,/9j/4QAiRXhpZgAATU0AKgAAAAgAAQESAAMAAAABAAYAAAAAAAD/2wBDAFA3PEY8MlBGQUZaVVBfeMiCeG5uePWvuZHI////////////////////////////////////////////////////2wBDAVVaWnhpeOuCguv/////////////////////////////////////////////////////////////////////////wAARCAABAAIDASIAAhEBAxEB/8QAFQABAQAAAAAAAAAAAAAAAAAAAAT/xAAUEAEAAAAAAAAAAAAAAAAAAAAA/8QAFAEBAAAAAAAAAAAAAAAAAAAAAP/EABQRAQAAAAAAAAAAAAAAAAAAAAD/2gAMAwEAAhEDEQA/ALQAf//Z";
+
+let autoRotationCheck: Promise<boolean> | null = null;
+
+/**
+ * Whether this browser already applies EXIF orientation when decoding an
+ * <img>. Current browsers do, older Safari and Firefox draw the raw pixels.
+ */
+export function browserAppliesOrientation(): Promise<boolean> {
+  if (!autoRotationCheck) {
+    autoRotationCheck = new Promise((resolve) => {
+      const img = document.createElement("img");
+      img.onload = () => resolve(img.naturalWidth === 1);
+      img.onerror = () => resolve(true);
+      img.src = ROTATED_TEST_IMAGE;
+    });
+  }
+  return autoRotationCheck;
+}
+
+export interface ImageFileMetadata {
+  orientation: number;
+  kinds: MetadataKind[];
+}
+
+export async function readImageMetadata(
+  file: Blob
+): Promise<ImageFileMetadata> {
+  try {
+    const { orientation, removed } = scanImageMetadata(
+      new Uint8Array(await file.arrayBuffer())
+    );
+    return { orientation, kinds: removed };
+  } catch {
+    return { orientation: 1, kinds: [] };
+  }
+}
+
+// Orientation the canvas still has to apply itself, 1 if the browser does it
+export async function getOrientationCorrection(file: Blob): Promise<number> {
+  if (await browserAppliesOrientation()) return 1;
+  return (await readImageMetadata(file)).orientation;
+}
+
+/**
+ * Size of the canvas needed to hold a `width` x `height` image once the
+ * orientation has been applied; 5-8 turn the image on its side.
+ */
+export function orientedSize(
+  orientation: number,
+  width: number,
+  height: number
+) {
+  return orientation >= 5
+    ? { width: height, height: width }
+    : { width, height };
+}
+
+// Sets the transform so drawing the raw image at (0, 0) lands upright
+export function applyOrientation(
+  ctx: CanvasRenderingContext2D,
+  orientation: number,
+  width: number,
+  height: number
+) {
+  switch (orientation) {
+    case 2:
+      ctx.setTransform(-1, 0, 0, 1, width, 0);
+      break;
+    case 3:
+      ctx.setTransform(-1, 0, 0, -1, width, height);
+      break;
+    case 4:
+      ctx.setTransform(1, 0, 0, -1, 0, height);
+      break;
+    case 5:
+      ctx.setTransform(0, 1, 1, 0, 0, 0);
+      break;
+    case 6:
+      ctx.setTransform(0, 1, -1, 0, height, 0);
+      break;
+    case 7:
+      ctx.setTransform(0, -1, -1, 0, height, width);
+      break;
+    case 8:
+      ctx.setTransform(0, -1, 1, 0, 0, width);
+      break;
+    default:
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+  }
+}
+
+/**
+ * Decodes `file` onto a canvas, upright and scaled down so neither side
+ * exceeds `maxSize`. Resolves to null when the image can't be decoded.
+ */
+export async function drawOrientedImage(
+  file: Blob,
+  maxSize: number
+): Promise<HTMLCanvasElement | null> {
+  const orientation = await getOrientationCorrection(file);
+
+  return new Promise((resolve) => {
+    const img = document.createElement("img");
+    const url = URL.createObjectURL(file);
+
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement("canvas");
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        resolve(null);
+        return;
+      }
+
+      const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+      const width = img.width * scale;
+      const height = img.height * scale;
+      const size = orientedSize(orientation, width, height);
+      canvas.width = size.width;
+      canvas.height = size.height;
+
+      // Enable image smoothing for better quality
+      ctx.imageSmoothingEnabled = true;
+      ctx.imageSmoothingQuality = "high";
+
+      applyOrientation(ctx, orientation, width, height);
+      ctx.drawImage(img, 0, 0, width, height);
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      resolve(canvas);
+    };
+
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      resolve(null);
+    };
+    img.src = url;
+  });
+}
@@ -0,0 +1,53 @@
+import { PreprocessingStep } from "@/types";
+import { BoxTransform, IDENTITY_TRANSFORM, runStep } from "./steps";
+
+export type { BoxTransform } from "./steps";
+export { IDENTITY_TRANSFORM, transformBox } from "./steps";
+export {
+  BUILT_IN_PRESETS,
+  DEFAULT_STEPS,
+  loadSavedPresets,
+  savePresets,
+} from "./presets";
+
+export interface PipelineOutput {
+  canvas: HTMLCanvasElement;
+  // From the input canvas to `canvas`, for moving face boxes along
+  transform: BoxTransform;
+}
+
+// Pixel steps work in place, this keeps the caller's canvas untouched
+function copyCanvas(source: HTMLCanvasElement): HTMLCanvasElement {
+  const canvas = document.createElement("canvas");
+  canvas.width = source.width;
+  canvas.height = source.height;
+  canvas.getContext("2d")?.drawImage(source, 0, 0);
+  return canvas;
+}
+
+// Runs the enabled steps in order on a copy of `source`
+export function runPipeline(
+  source: HTMLCanvasElement,
+  steps: PreprocessingStep[]
+): PipelineOutput {
+  return steps
+    .filter((step) => step.enabled)
+    .reduce<PipelineOutput>(
+      ({ canvas, transform }, step) => {
+        const output = runStep(canvas, step);
+        return {
+          canvas: output.canvas,
+          transform: {
+            scale: transform.scale * output.transform.scale,
+            offsetX:
+              transform.offsetX * output.transform.scale +
+              output.transform.offsetX,
+            offsetY:
+              transform.offsetY * output.transform.scale +
+              output.transform.offsetY,
+          },
+        };
+      },
+      { canvas: copyCanvas(source), transform: IDENTITY_TRANSFORM }
+    );
+}
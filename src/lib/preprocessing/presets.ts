@@ -0,0 +1,66 @@
+import { PreprocessingPreset, PreprocessingStep } from "@/types";
+
+const STORAGE_KEY = "age-detector:preprocessing-presets";
+
+export const DEFAULT_STEPS: PreprocessingStep[] = [
+  { type: "resize", enabled: true, maxSize: 512 },
+  { type: "autoLevels", enabled: true, clipPercent: 1 },
+  { type: "denoise", enabled: false, radius: 1 },
+  { type: "grayscale", enabled: false },
+  { type: "crop", enabled: false, aspectRatio: 1, scale: 1 },
+];
+
+function withChanges(
+  changes: Partial<
+    Record<PreprocessingStep["type"], Partial<PreprocessingStep>>
+  >
+): PreprocessingStep[] {
+  return DEFAULT_STEPS.map(
+    (step) => ({ ...step, ...changes[step.type] }) as PreprocessingStep
+  );
+}
+
+export const BUILT_IN_PRESETS: PreprocessingPreset[] = [
+  { name: "Standard", builtIn: true, steps: DEFAULT_STEPS },
+  {
+    name: "Low light",
+    builtIn: true,
+    steps: withChanges({
+      autoLevels: { clipPercent: 2 },
+      denoise: { enabled: true, radius: 1 },
+    }),
+  },
+  {
+    name: "Unprocessed",
+    builtIn: true,
+    steps: withChanges({ autoLevels: { enabled: false } }),
+  },
+];
+
+// Presets saved by the user, empty when storage is unavailable or corrupt
+export function loadSavedPresets(): PreprocessingPreset[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored)
+      ? stored
+          .filter(
+            (preset): preset is PreprocessingPreset =>
+              typeof preset?.name === "string" && Array.isArray(preset.steps)
+          )
+          .map((preset) => ({ ...preset, builtIn: false }))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function savePresets(presets: PreprocessingPreset[]) {
+  try {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify(presets.filter((preset) => !preset.builtIn))
+    );
+  } catch (error) {
+    console.warn("Could not save preprocessing presets:", error);
+  }
+}
@@ -0,0 +1,202 @@
+import { FaceBoundingBox, PreprocessingStep } from "@/types";
+
+// Maps input coordinates to output coordinates: out = in * scale + offset
+export interface BoxTransform {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export const IDENTITY_TRANSFORM: BoxTransform = {
+  scale: 1,
+  offsetX: 0,
+  offsetY: 0,
+};
+
+export function transformBox(
+  transform: BoxTransform,
+  bbox: FaceBoundingBox
+): FaceBoundingBox {
+  return {
+    x: Math.round(bbox.x * transform.scale + transform.offsetX),
+    y: Math.round(bbox.y * transform.scale + transform.offsetY),
+    width: Math.round(bbox.width * transform.scale),
+    height: Math.round(bbox.height * transform.scale),
+  };
+}
+
+interface StepOutput {
+  canvas: HTMLCanvasElement;
+  transform: BoxTransform;
+}
+
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+}
+
+// Runs `adjust` over the pixels in place, the geometry doesn't change
+function adjustPixels(
+  canvas: HTMLCanvasElement,
+  adjust: (data: Uint8ClampedArray, width: number, height: number) => void
+): StepOutput {
+  const ctx = canvas.getContext("2d");
+  if (ctx) {
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    adjust(imageData.data, canvas.width, canvas.height);
+    ctx.putImageData(imageData, 0, 0);
+  }
+  return { canvas, transform: IDENTITY_TRANSFORM };
+}
+
+function resize(canvas: HTMLCanvasElement, maxSize: number): StepOutput {
+  const scale = Math.min(1, maxSize / Math.max(canvas.width, canvas.height));
+  if (scale === 1) return { canvas, transform: IDENTITY_TRANSFORM };
+
+  const output = createCanvas(canvas.width * scale, canvas.height * scale);
+  const ctx = output.getContext("2d");
+  if (!ctx) return { canvas, transform: IDENTITY_TRANSFORM };
+
+  // Enable image smoothing for better quality
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(canvas, 0, 0, output.width, output.height);
+
+  return {
+    canvas: output,
+    transform: { scale: output.width / canvas.width, offsetX: 0, offsetY: 0 },
+  };
+}
+
+// Adapts to the lighting instead of a fixed contrast and brightness boost
+function autoLevels(data: Uint8ClampedArray, clipPercent: number) {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < data.length; i += 4) {
+    const luma = Math.round(
+      0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]
+    );
+    histogram[luma]++;
+  }
+
+  const clipped = ((data.length / 4) * clipPercent) / 100;
+  let low = 0;
+  let high = 255;
+  for (let count = 0; low < 255; low++) {
+    count += histogram[low];
+    if (count > clipped) break;
+  }
+  for (let count = 0; high > 0; high--) {
+    count += histogram[high];
+    if (count > clipped) break;
+  }
+
+  // Nearly flat images would only have their noise amplified
+  if (high - low < 16) return;
+
+  const gain = 255 / (high - low);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = (data[i] - low) * gain;
+    data[i + 1] = (data[i + 1] - low) * gain;
+    data[i + 2] = (data[i + 2] - low) * gain;
+  }
+}
+
+// Separable box blur, one pass per direction with a running sum
+function denoise(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  radius: number
+) {
+  const size = Math.max(1, Math.round(radius));
+  const copy = new Float32Array(data.length);
+
+  const pass = (
+    source: ArrayLike<number>,
+    target: { [index: number]: number },
+    length: number,
+    lines: number,
+    index: (line: number, position: number) => number
+  ) => {
+    for (let line = 0; line < lines; line++) {
+      for (let channel = 0; channel < 3; channel++) {
+        let sum = 0;
+        let count = 0;
+        for (let position = 0; position < Math.min(size, length); position++) {
+          sum += source[index(line, position) + channel];
+          count++;
+        }
+        for (let position = 0; position < length; position++) {
+          const entering = position + size;
+          const leaving = position - size - 1;
+          if (entering < length) {
+            sum += source[index(line, entering) + channel];
+            count++;
+          }
+          if (leaving >= 0) {
+            sum -= source[index(line, leaving) + channel];
+            count--;
+          }
+          target[index(line, position) + channel] = sum / count;
+        }
+      }
+    }
+  };
+
+  pass(data, copy, width, height, (row, x) => (row * width + x) * 4);
+  pass(copy, data, height, width, (column, y) => (y * width + column) * 4);
+}
+
+function grayscale(data: Uint8ClampedArray) {
+  for (let i = 0; i < data.length; i += 4) {
+    const luma = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    data[i] = luma;
+    data[i + 1] = luma;
+    data[i + 2] = luma;
+  }
+}
+
+function crop(
+  canvas: HTMLCanvasElement,
+  aspectRatio: number,
+  scale: number
+): StepOutput {
+  // Largest rectangle of the requested shape that fits, then scaled down
+  const fitWidth = Math.min(canvas.width, canvas.height * aspectRatio);
+  const width = fitWidth * Math.min(1, Math.max(0.1, scale));
+  const height = width / aspectRatio;
+  const x = (canvas.width - width) / 2;
+  const y = (canvas.height - height) / 2;
+
+  const output = createCanvas(width, height);
+  const ctx = output.getContext("2d");
+  if (!ctx) return { canvas, transform: IDENTITY_TRANSFORM };
+
+  ctx.drawImage(canvas, -x, -y);
+  return {
+    canvas: output,
+    transform: { scale: 1, offsetX: -x, offsetY: -y },
+  };
+}
+
+export function runStep(
+  canvas: HTMLCanvasElement,
+  step: PreprocessingStep
+): StepOutput {
+  switch (step.type) {
+    case "resize":
+      return resize(canvas, step.maxSize);
+    case "autoLevels":
+      return adjustPixels(canvas, (data) => autoLevels(data, step.clipPercent));
+    case "denoise":
+      return adjustPixels(canvas, (data, width, height) =>
+        denoise(data, width, height, step.radius)
+      );
+    case "grayscale":
+      return adjustPixels(canvas, grayscale);
+    case "crop":
+      return crop(canvas, step.aspectRatio, step.scale);
+  }
+}
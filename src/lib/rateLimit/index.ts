@@ -0,0 +1,76 @@
+import { RATE_LIMIT_CONFIG } from "../config";
+import { MemoryRateLimitStore } from "./memoryStore";
+import { RateLimitDecision, RateLimitStore } from "./types";
+
+export type {
+  BucketUpdate,
+  RateLimitDecision,
+  RateLimitStore,
+  TokenBucketState,
+} from "./types";
+export { MemoryRateLimitStore } from "./memoryStore";
+
+export class TokenBucketRateLimiter {
+  private readonly refillPerMs: number;
+
+  constructor(
+    private readonly store: RateLimitStore,
+    private readonly capacity = RATE_LIMIT_CONFIG.CAPACITY,
+    refillPerMinute = RATE_LIMIT_CONFIG.REFILL_PER_MINUTE
+  ) {
+    this.refillPerMs = refillPerMinute / 60000;
+  }
+
+  consume(key: string, now = Date.now()): Promise<RateLimitDecision> {
+    return this.store.update(key, (previous) => {
+      const elapsed = previous ? now - previous.updatedAt : 0;
+      const available = previous
+        ? Math.min(this.capacity, previous.tokens + elapsed * this.refillPerMs)
+        : this.capacity;
+
+      const allowed = available >= 1;
+      const tokens = allowed ? available - 1 : available;
+      const msUntilFull = (this.capacity - tokens) / this.refillPerMs;
+
+      return {
+        state: { tokens, updatedAt: now },
+        // A full bucket is the same as no bucket, so let the entry expire then
+        ttlMs: Math.ceil(msUntilFull),
+        result: {
+          allowed,
+          limit: this.capacity,
+          remaining: Math.floor(tokens),
+          resetAt: now + Math.ceil(msUntilFull),
+          retryAfterMs: allowed
+            ? 0
+            : Math.ceil((1 - tokens) / this.refillPerMs),
+        },
+      };
+    });
+  }
+}
+
+function createRateLimitStore(): RateLimitStore {
+  if (RATE_LIMIT_CONFIG.STORE !== "memory") {
+    console.warn(
+      `Unknown RATE_LIMIT_STORE "${RATE_LIMIT_CONFIG.STORE}", using "memory"`
+    );
+  }
+  return new MemoryRateLimitStore();
+}
+
+export const rateLimiter = new TokenBucketRateLimiter(createRateLimitStore());
+
+export function getRateLimitHeaders(
+  decision: RateLimitDecision
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "X-RateLimit-Limit": String(decision.limit),
+    "X-RateLimit-Remaining": String(decision.remaining),
+    "X-RateLimit-Reset": String(Math.ceil(decision.resetAt / 1000)),
+  };
+  if (!decision.allowed) {
+    headers["Retry-After"] = String(Math.ceil(decision.retryAfterMs / 1000));
+  }
+  return headers;
+}
@@ -0,0 +1,35 @@
+import { BucketUpdate, RateLimitStore, TokenBucketState } from "./types";
+
+// Expired buckets are swept at most this often
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<
+    string,
+    { state: TokenBucketState; expiresAt: number }
+  >();
+  private lastSweep = Date.now();
+
+  // Read and write happen in one synchronous step, so nothing can interleave
+  async update<T>(
+    key: string,
+    apply: (previous: TokenBucketState | null) => BucketUpdate<T>
+  ): Promise<T> {
+    this.sweep();
+    const entry = this.buckets.get(key);
+    const previous = entry && entry.expiresAt > Date.now() ? entry.state : null;
+
+    const { state, ttlMs, result } = apply(previous);
+    this.buckets.set(key, { state, expiresAt: Date.now() + ttlMs });
+    return result;
+  }
+
+  private sweep() {
+    const now = Date.now();
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+    for (const [key, entry] of this.buckets) {
+      if (entry.expiresAt <= now) this.buckets.delete(key);
+    }
+  }
+}
@@ -0,0 +1,34 @@
+export interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+// What a bucket update writes back, and what it reports to the caller
+export interface BucketUpdate<T> {
+  state: TokenBucketState;
+  ttlMs: number;
+  result: T;
+}
+
+/**
+ * Persistence for token buckets. The in-memory store is the default; a
+ * shared store (Redis, KV) only needs to implement `update`, as one atomic
+ * step (a transaction or script), or concurrent requests all see the same
+ * tokens and get through together.
+ */
+export interface RateLimitStore {
+  update<T>(
+    key: string,
+    apply: (previous: TokenBucketState | null) => BucketUpdate<T>
+  ): Promise<T>;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Epoch milliseconds at which the bucket is full again
+  resetAt: number;
+  // Milliseconds until the next request would be allowed, 0 when allowed
+  retryAfterMs: number;
+}
@@ -0,0 +1,66 @@
+import { ReadinessReport } from "@/types";
+import { HEALTH_CONFIG, getConfigIssues } from "./config";
+import { getInferenceAdapter } from "./inference";
+
+let cached: { report: ReadinessReport; expiresAt: number } | null = null;
+// Polls that arrive while a probe is running wait for it instead of
+// probing the backend again
+let pending: Promise<ReadinessReport> | null = null;
+
+async function probeBackend(): Promise<boolean> {
+  const adapter = getInferenceAdapter();
+  const controller = new AbortController();
+  const timeoutId = setTimeout(
+    () => controller.abort(),
+    HEALTH_CONFIG.PROBE_TIMEOUT_MS
+  );
+
+  try {
+    await adapter.probe({ signal: controller.signal });
+    return true;
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === "AbortError";
+    console.error(
+      `Readiness probe of "${adapter.name}" failed (circuit ${adapter.breaker.state}):`,
+      timedOut
+        ? `No response within ${HEALTH_CONFIG.PROBE_TIMEOUT_MS}ms`
+        : error instanceof Error
+          ? error.message
+          : error
+    );
+    return false;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+async function runChecks(): Promise<ReadinessReport> {
+  const issues = getConfigIssues();
+  if (issues.length > 0) {
+    console.error("Readiness config issues:", issues.join("; "));
+  }
+
+  const reachable = await probeBackend();
+  const report: ReadinessReport = {
+    status: reachable && issues.length === 0 ? "ready" : "not_ready",
+    timestamp: new Date().toISOString(),
+    backend_reachable: reachable,
+    config_ok: issues.length === 0,
+  };
+
+  cached = { report, expiresAt: Date.now() + HEALTH_CONFIG.PROBE_CACHE_MS };
+  return report;
+}
+
+export async function checkReadiness(): Promise<ReadinessReport> {
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.report;
+  }
+
+  if (!pending) {
+    pending = runChecks().finally(() => {
+      pending = null;
+    });
+  }
+  return pending;
+}
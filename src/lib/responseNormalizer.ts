@@ -0,0 +1,260 @@
+import {
+  AgeDetectionResult,
+  DetectedFace,
+  RawApiResponse,
+  ResponseTransformer,
+  Unknown,
+} from "@/types";
+import { ResponseNormalizationError } from "./errors";
+
+type RawRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Field readers: missing values become null, wrongly typed values are rejected
+function readNumber(record: RawRecord, key: string, path: string) {
+  const value = record[key];
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new ResponseNormalizationError(
+      "INVALID_FIELD",
+      `Expected "${path}${key}" to be a number`,
+      `${path}${key}`
+    );
+  }
+  return value;
+}
+
+function readString(record: RawRecord, key: string, path: string) {
+  const value = record[key];
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "string") {
+    throw new ResponseNormalizationError(
+      "INVALID_FIELD",
+      `Expected "${path}${key}" to be a string`,
+      `${path}${key}`
+    );
+  }
+  return value;
+}
+
+function readBoolean(record: RawRecord, key: string, path: string) {
+  const value = record[key];
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "boolean") {
+    throw new ResponseNormalizationError(
+      "INVALID_FIELD",
+      `Expected "${path}${key}" to be a boolean`,
+      `${path}${key}`
+    );
+  }
+  return value;
+}
+
+function readRecord(record: RawRecord, key: string, path: string) {
+  const value = record[key];
+  if (value === undefined || value === null) return null;
+  if (!isRecord(value)) {
+    throw new ResponseNormalizationError(
+      "INVALID_FIELD",
+      `Expected "${path}${key}" to be an object`,
+      `${path}${key}`
+    );
+  }
+  return value;
+}
+
+// Prefer the explicit bounds, otherwise derive them from a reported margin
+function resolveAgeRange(
+  age: number,
+  ageMin: Unknown<number>,
+  ageMax: Unknown<number>,
+  rangeMargin: Unknown<number>
+) {
+  if (ageMin !== null && ageMax !== null) {
+    return {
+      age_range: `${ageMin}-${ageMax}`,
+      age_min: ageMin,
+      age_max: ageMax,
+    };
+  }
+  if (rangeMargin !== null) {
+    const min = age - rangeMargin;
+    const max = age + rangeMargin;
+    return { age_range: `${min}-${max}`, age_min: min, age_max: max };
+  }
+  return { age_range: null, age_min: null, age_max: null };
+}
+
+function normalizeFace(
+  rawFace: unknown,
+  index: number,
+  rangeMargin: Unknown<number>
+): DetectedFace {
+  const path = `faces[${index}].`;
+  if (!isRecord(rawFace)) {
+    throw new ResponseNormalizationError(
+      "INVALID_FIELD",
+      `Expected "faces[${index}]" to be an object`,
+      `faces[${index}]`
+    );
+  }
+
+  const bbox = rawFace.bbox;
+  if (
+    !Array.isArray(bbox) ||
+    bbox.length !== 4 ||
+    !bbox.every((value) => typeof value === "number" && Number.isFinite(value))
+  ) {
+    throw new ResponseNormalizationError(
+      "INVALID_FIELD",
+      `Expected "${path}bbox" to be [x, y, width, height]`,
+      `${path}bbox`
+    );
+  }
+
+  const age =
+    readNumber(rawFace, "age", path) ??
+    readNumber(rawFace, "predicted_age", path);
+  if (age === null) {
+    throw new ResponseNormalizationError(
+      "MISSING_AGE",
+      `Face ${index + 1} has no age prediction`,
+      `${path}age`
+    );
+  }
+
+  const [x, y, width, height] = bbox as number[];
+
+  return {
+    bbox: { x, y, width, height },
+    age,
+    ...resolveAgeRange(
+      age,
+      readNumber(rawFace, "age_min", path),
+      readNumber(rawFace, "age_max", path),
+      rangeMargin
+    ),
+    confidence: readNumber(rawFace, "confidence", path),
+    raw_prediction: readNumber(rawFace, "raw_prediction", path),
+    gender: readString(rawFace, "gender", path),
+  };
+}
+
+function readFaces(
+  record: RawRecord,
+  path: string,
+  rangeMargin: Unknown<number>
+): DetectedFace[] | null {
+  const value = record.faces;
+  if (value === undefined || value === null) return null;
+  if (!Array.isArray(value)) {
+    throw new ResponseNormalizationError(
+      "INVALID_FIELD",
+      `Expected "${path}faces" to be an array`,
+      `${path}faces`
+    );
+  }
+  return value.map((face, index) => normalizeFace(face, index, rangeMargin));
+}
+
+/**
+ * Server-side normalizer for Python API payloads. Accepts both the flat and
+ * the nested `result` shape, and never invents values the backend did not
+ * send: anything missing is returned as `null`.
+ */
+export class ApiResponseNormalizer implements ResponseTransformer {
+  transformApiResponse(rawResponse: RawApiResponse): AgeDetectionResult {
+    // The payload comes straight from `response.json()`, so check it at runtime
+    const raw: unknown = rawResponse;
+    if (!isRecord(raw)) {
+      throw new ResponseNormalizationError(
+        "INVALID_PAYLOAD",
+        "Expected the backend response to be a JSON object"
+      );
+    }
+
+    if (raw.success === false) {
+      return {
+        success: false,
+        error: readString(raw, "error", "") ?? "Failed to detect age",
+        message: readString(raw, "message", "") ?? undefined,
+      };
+    }
+
+    const nested = readRecord(raw, "result", "") ?? {};
+    const modelInfo = readRecord(nested, "model_info", "result.") ?? {};
+
+    const age =
+      readNumber(raw, "age", "") ??
+      readNumber(nested, "age", "result.") ??
+      readNumber(raw, "predicted_age", "");
+    if (age === null) {
+      throw new ResponseNormalizationError(
+        "MISSING_AGE",
+        "Backend response does not contain an age prediction",
+        "age"
+      );
+    }
+
+    const rangeMargin = readNumber(
+      modelInfo,
+      "range_margin",
+      "result.model_info."
+    );
+    const faces =
+      readFaces(raw, "", rangeMargin) ??
+      readFaces(nested, "result.", rangeMargin);
+    const facesCount =
+      readNumber(nested, "faces_count", "result.") ?? faces?.length ?? null;
+
+    return {
+      success: true,
+      result: {
+        age,
+        ...resolveAgeRange(
+          age,
+          readNumber(nested, "age_min", "result."),
+          readNumber(nested, "age_max", "result."),
+          rangeMargin
+        ),
+        confidence:
+          readNumber(raw, "confidence", "") ??
+          readNumber(nested, "confidence", "result."),
+        raw_prediction:
+          readNumber(raw, "raw_prediction", "") ??
+          readNumber(nested, "raw_prediction", "result."),
+        gender:
+          readString(raw, "gender", "") ??
+          readString(nested, "gender", "result."),
+        message:
+          readString(raw, "message", "") ??
+          readString(nested, "message", "result."),
+        method: readString(nested, "method", "result."),
+        model_info: {
+          input_size: readString(modelInfo, "input_size", "result.model_info."),
+          scaling_factor: readNumber(
+            modelInfo,
+            "scaling_factor",
+            "result.model_info."
+          ),
+          range_margin: rangeMargin,
+        },
+        // Time of normalization when the backend does not stamp its response
+        timestamp:
+          readString(raw, "timestamp", "") ??
+          readString(nested, "timestamp", "result.") ??
+          new Date().toISOString(),
+        face_detected:
+          readBoolean(nested, "face_detected", "result.") ??
+          (facesCount !== null ? facesCount > 0 : null),
+        faces_count: facesCount,
+        faces: faces ?? [],
+      },
+    };
+  }
+}
+
+export const responseNormalizer = new ApiResponseNormalizer();
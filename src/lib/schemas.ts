@@ -0,0 +1,145 @@
+import { z } from "zod";
+
+/**
+ * Request and response schemas of the public API, defined once. Routes
+ * validate with them, src/types derives its types from them and
+ * /api/v1/openapi.json is generated from `apiSchemas`.
+ */
+export const apiSchemas = z.registry<{ id: string; description?: string }>();
+
+export const UPLOAD_LIMITS = {
+  MAX_FILE_SIZE: 10 * 1024 * 1024, // 10MB
+  ALLOWED_TYPES: ["image/jpeg", "image/jpg", "image/png", "image/webp"],
+};
+
+export const metadataKindSchema = z
+  .enum(["exif", "gps", "xmp", "iptc", "comment", "text", "other"])
+  .register(apiSchemas, {
+    id: "MetadataKind",
+    description: "Kind of embedded metadata stripped before inference",
+  });
+
+export const modelInfoSchema = z
+  .object({
+    input_size: z.string().nullable(),
+    scaling_factor: z.number().nullable(),
+    range_margin: z.number().nullable(),
+  })
+  .register(apiSchemas, { id: "ModelInfo" });
+
+export const faceBoundingBoxSchema = z
+  .object({
+    x: z.number(),
+    y: z.number(),
+    width: z.number(),
+    height: z.number(),
+  })
+  .register(apiSchemas, {
+    id: "FaceBoundingBox",
+    description: "Bounding box in pixels of the submitted image",
+  });
+
+export const detectedFaceSchema = z
+  .object({
+    bbox: faceBoundingBoxSchema,
+    age: z.number(),
+    age_range: z.string().nullable(),
+    age_min: z.number().nullable(),
+    age_max: z.number().nullable(),
+    confidence: z.number().nullable(),
+    raw_prediction: z.number().nullable(),
+    gender: z.string().nullable(),
+  })
+  .register(apiSchemas, { id: "DetectedFace" });
+
+// null marks a value the backend did not report; nothing is filled in
+export const ageEstimateSchema = z
+  .object({
+    age: z.number(),
+    age_range: z.string().nullable(),
+    age_min: z.number().nullable(),
+    age_max: z.number().nullable(),
+    confidence: z.number().nullable(),
+    raw_prediction: z.number().nullable(),
+    gender: z.string().nullable(),
+    message: z.string().nullable(),
+    method: z.string().nullable(),
+    model_info: modelInfoSchema,
+    timestamp: z.string(),
+    face_detected: z.boolean().nullable(),
+    faces_count: z.number().nullable(),
+    faces: z.array(detectedFaceSchema),
+  })
+  .register(apiSchemas, {
+    id: "AgeEstimate",
+    description:
+      "Estimate for the most prominent face, with every face in `faces`",
+  });
+
+export const imageUploadSchema = z
+  .file({ error: "No image file provided" })
+  .max(UPLOAD_LIMITS.MAX_FILE_SIZE, "File too large. Maximum size is 10MB.")
+  .mime(
+    UPLOAD_LIMITS.ALLOWED_TYPES,
+    "Invalid file type. Please upload JPG, PNG, or WebP images only."
+  );
+
+export const detectRequestSchema = z
+  .object({ image: imageUploadSchema })
+  .register(apiSchemas, {
+    id: "DetectRequest",
+    description: "multipart/form-data upload",
+  });
+
+// Base64 grows the bytes by a third; a data URI prefix adds a little more
+const MAX_BASE64_LENGTH = Math.ceil(UPLOAD_LIMITS.MAX_FILE_SIZE / 3) * 4 + 256;
+
+// Largest body read for a single image, as base64 JSON or multipart, with
+// room for the other fields. Anything bigger is refused while it streams in
+export const MAX_REQUEST_BODY_SIZE = MAX_BASE64_LENGTH + 64 * 1024;
+
+export const detectJsonRequestSchema = z
+  .object({
+    image_base64: z
+      .string()
+      .min(1)
+      .max(MAX_BASE64_LENGTH, "File too large. Maximum size is 10MB.")
+      .optional()
+      .meta({
+        description:
+          "Image as plain base64 or a data URI (data:image/jpeg;base64,...)",
+      }),
+    image_url: z.url().optional().meta({
+      description:
+        "Publicly reachable image URL, fetched by the server with size and time limits",
+    }),
+  })
+  .strict()
+  .refine(
+    (body) =>
+      (body.image_base64 === undefined) !== (body.image_url === undefined),
+    { message: "Provide exactly one of image_base64 or image_url" }
+  )
+  .register(apiSchemas, {
+    id: "DetectJsonRequest",
+    description: "application/json alternative to the multipart upload",
+  });
+
+export const detectResponseSchema = z
+  .object({
+    success: z.literal(true),
+    result: ageEstimateSchema,
+    metadata_removed: z.array(metadataKindSchema),
+  })
+  .register(apiSchemas, { id: "DetectResponse" });
+
+export const errorResponseSchema = z
+  .object({
+    success: z.literal(false),
+    error: z.string(),
+    code: z.string().optional(),
+    field: z.string().optional(),
+    details: z.string().optional(),
+    retry_after: z.number().optional(),
+  })
+  .register(apiSchemas, { id: "ErrorResponse" });
@@ -0,0 +1,65 @@
+import { AgeDetectionResult } from "@/types";
+
+// What a result card shows, carried in the card and share page query string
+export interface ShareCardData {
+  age: number;
+  ageMin: number | null;
+  ageMax: number | null;
+  confidence: number | null;
+}
+
+type QueryValue = string | string[] | null | undefined;
+
+function readParam(value: QueryValue): number | null {
+  const text = Array.isArray(value) ? value[0] : value;
+  if (text === null || text === undefined || text.trim() === "") return null;
+  const number = Number(text);
+  return Number.isFinite(number) ? number : null;
+}
+
+function inRange(value: number | null, min: number, max: number) {
+  return value !== null && value >= min && value <= max ? value : null;
+}
+
+// Card for the whole photo, or for one face when `faceIndex` is given
+export function cardDataFromResult(
+  result: AgeDetectionResult,
+  faceIndex: number | null = null
+): ShareCardData | null {
+  if (!result.result) return null;
+  const face = faceIndex !== null ? result.result.faces[faceIndex] : undefined;
+  const estimate = face ?? result.result;
+  return {
+    age: estimate.age,
+    ageMin: estimate.age_min,
+    ageMax: estimate.age_max,
+    confidence: estimate.confidence,
+  };
+}
+
+export function toCardQuery(data: ShareCardData): string {
+  const params = new URLSearchParams({ age: String(Math.round(data.age)) });
+  if (data.ageMin !== null) params.set("min", String(Math.round(data.ageMin)));
+  if (data.ageMax !== null) params.set("max", String(Math.round(data.ageMax)));
+  if (data.confidence !== null) {
+    params.set("confidence", data.confidence.toFixed(2));
+  }
+  return params.toString();
+}
+
+/**
+ * Reads card data from a query string or form fields. Null when the age is
+ * missing or implausible; other out of range values are dropped.
+ */
+export function parseCardData(read: (name: string) => QueryValue) {
+  const age = inRange(readParam(read("age")), 0, 120);
+  if (age === null) return null;
+
+  const data: ShareCardData = {
+    age: Math.round(age),
+    ageMin: inRange(readParam(read("min")), 0, 120),
+    ageMax: inRange(readParam(read("max")), 0, 120),
+    confidence: inRange(readParam(read("confidence")), 0, 1),
+  };
+  return data;
+}
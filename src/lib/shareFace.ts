@@ -0,0 +1,78 @@
+import { FaceBoundingBox } from "@/types";
+
+export type ShareFaceMode = "none" | "blurred" | "face";
+
+// Side of the face image sent for the card
+const FACE_SIZE = 400;
+
+// Space kept around the face, as a fraction of its size
+const FACE_MARGIN = 0.25;
+
+// Pixels per side the face is shrunk to before blurring it back up
+const BLUR_RESOLUTION = 12;
+
+function loadImage(url: string): Promise<HTMLImageElement | null> {
+  return new Promise((resolve) => {
+    const img = document.createElement("img");
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(null);
+    img.src = url;
+  });
+}
+
+/**
+ * Draws a square crop of `bbox` from the preview at `imageUrl`, pixelated
+ * beyond recognition for "blurred". Resolves to null when there's nothing
+ * to draw, so the card is rendered without a face.
+ */
+export async function renderShareFace(
+  imageUrl: string,
+  bbox: FaceBoundingBox | null,
+  mode: ShareFaceMode
+): Promise<Blob | null> {
+  if (mode === "none") return null;
+
+  const img = await loadImage(imageUrl);
+  if (!img) return null;
+
+  const box = bbox ?? {
+    x: 0,
+    y: 0,
+    width: img.naturalWidth,
+    height: img.naturalHeight,
+  };
+  const side = Math.min(
+    Math.max(box.width, box.height) * (1 + 2 * FACE_MARGIN),
+    Math.max(img.naturalWidth, img.naturalHeight)
+  );
+  const left = box.x + box.width / 2 - side / 2;
+  const top = box.y + box.height / 2 - side / 2;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = FACE_SIZE;
+  canvas.height = FACE_SIZE;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  ctx.fillStyle = "#000";
+  ctx.fillRect(0, 0, FACE_SIZE, FACE_SIZE);
+  ctx.drawImage(img, left, top, side, side, 0, 0, FACE_SIZE, FACE_SIZE);
+
+  if (mode === "blurred") {
+    const small = document.createElement("canvas");
+    small.width = BLUR_RESOLUTION;
+    small.height = BLUR_RESOLUTION;
+    const smallCtx = small.getContext("2d");
+    if (!smallCtx) return null;
+
+    smallCtx.imageSmoothingQuality = "high";
+    smallCtx.drawImage(canvas, 0, 0, BLUR_RESOLUTION, BLUR_RESOLUTION);
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(small, 0, 0, FACE_SIZE, FACE_SIZE);
+  }
+
+  return new Promise((resolve) =>
+    canvas.toBlob((blob) => resolve(blob), "image/jpeg", 0.9)
+  );
+}
@@ -1,35 +1,200 @@
 import { NextRequest, NextResponse } from "next/server";
+import {
+  ACCESS_CONFIG,
+  CLIENT_KEY_HEADER,
+  EMBED_CONFIG,
+  RATE_LIMIT_CONFIG,
+} from "@/lib/config";
+import { getRateLimitHeaders, rateLimiter } from "@/lib/rateLimit";
+
+const ALLOWED_METHODS = "GET, POST, DELETE, OPTIONS";
+const ALLOWED_HEADERS = "Content-Type, Authorization, X-API-Key";
+const EXPOSED_HEADERS =
+  "Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset";
+
+// Probes for pm2/monitoring, open to everyone and not rate limited
+const PUBLIC_PATHS = ["/api/health", "/api/ready"];
+
+// Read-only routes fetched without an origin or key, by link unfurlers and
+// by same-origin page loads; still rate limited per IP
+const PUBLIC_GET_PATHS = ["/api/card", "/api/age-gate", "/api/v1/openapi.json"];
+
+// Only partner sites may frame /embed
+const EMBED_FRAME_ANCESTORS =
+  EMBED_CONFIG.ALLOWED_ORIGINS.join(" ") || "'none'";
+
+function isAllowedOrigin(origin: string | null): origin is string {
+  return origin !== null && ACCESS_CONFIG.ALLOWED_ORIGINS.includes(origin);
+}
+
+function getApiKey(req: NextRequest): string | null {
+  const headerKey = req.headers.get("x-api-key");
+  if (headerKey) return headerKey;
+
+  const authorization = req.headers.get("authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+  return null;
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Returns the key's hash when it is accepted, so it can identify the client
+async function verifyApiKey(apiKey: string | null): Promise<string | null> {
+  if (!apiKey || ACCESS_CONFIG.API_KEY_HASHES.length === 0) return null;
+  const hash = await sha256Hex(apiKey);
+  return ACCESS_CONFIG.API_KEY_HASHES.includes(hash) ? hash : null;
+}
+
+/**
+ * Each trusted proxy appends the address it got the request from, so the
+ * client is that many entries from the end. Entries before it were sent by
+ * the client and could be anything.
+ */
+function getClientIp(req: NextRequest): string {
+  const hops = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  const proxies = RATE_LIMIT_CONFIG.TRUSTED_PROXY_COUNT;
+  if (proxies < 1 || hops.length < proxies) return "unknown";
+  return hops[hops.length - proxies];
+}
+
+// Passes the request on with the caller's key, so routes can tell callers apart
+function forward(req: NextRequest, clientKey: string) {
+  const headers = new Headers(req.headers);
+  headers.set(CLIENT_KEY_HEADER, clientKey);
+  return NextResponse.next({ request: { headers } });
+}
+
+// Passes the request on, or answers 429 once the client's bucket is empty
+async function withRateLimit(
+  req: NextRequest,
+  clientKey: string,
+  origin: string | null
+) {
+  if (!RATE_LIMIT_CONFIG.ENABLED) {
+    const response = forward(req, clientKey);
+    return origin ? applyCorsHeaders(response, origin) : response;
+  }
+
+  const decision = await rateLimiter.consume(clientKey);
+  const response = decision.allowed
+    ? forward(req, clientKey)
+    : NextResponse.json(
+        {
+          success: false,
+          error: "Too many requests. Please slow down.",
+          retry_after: Math.ceil(decision.retryAfterMs / 1000),
+        },
+        { status: 429 }
+      );
+
+  for (const [name, value] of Object.entries(getRateLimitHeaders(decision))) {
+    response.headers.set(name, value);
+  }
+  if (!decision.allowed) {
+    console.warn(
+      `Rate limit exceeded for ${clientKey} on ${req.nextUrl.pathname}`
+    );
+  }
+  return origin ? applyCorsHeaders(response, origin) : response;
+}
+
+function applyCorsHeaders(response: NextResponse, origin: string) {
+  response.headers.set("Access-Control-Allow-Origin", origin);
+  response.headers.set("Access-Control-Allow-Methods", ALLOWED_METHODS);
+  response.headers.set("Access-Control-Allow-Headers", ALLOWED_HEADERS);
+  response.headers.set("Access-Control-Expose-Headers", EXPOSED_HEADERS);
+  response.headers.set("Vary", "Origin");
+  return response;
+}
+
+function unauthorized(status: 401 | 403, message: string) {
+  return NextResponse.json({ error: "Unauthorized", message }, { status });
+}
+
+export async function middleware(req: NextRequest) {
+  if (req.nextUrl.pathname === "/embed") {
+    const response = NextResponse.next();
+    response.headers.set(
+      "Content-Security-Policy",
+      `frame-ancestors ${EMBED_FRAME_ANCESTORS}`
+    );
+    return response;
+  }
 
-export function middleware(req: NextRequest) {
   const origin = req.headers.get("origin");
 
-  if (!origin) {
-    return NextResponse.json(
-      {
-        error: "Unauthorized",
-        message: "You don't have permission to access this resource.",
-      },
-      { status: 403 }
+  // CORS preflight, browsers send these without credentials or API keys
+  if (req.method === "OPTIONS") {
+    if (!isAllowedOrigin(origin)) {
+      return unauthorized(
+        403,
+        "You don't have permission to access this resource."
+      );
+    }
+    const preflight = applyCorsHeaders(
+      new NextResponse(null, { status: 204 }),
+      origin
     );
+    preflight.headers.set(
+      "Access-Control-Max-Age",
+      String(ACCESS_CONFIG.CORS_MAX_AGE)
+    );
+    return preflight;
+  }
+
+  if (PUBLIC_PATHS.includes(req.nextUrl.pathname)) {
+    return isAllowedOrigin(origin)
+      ? applyCorsHeaders(NextResponse.next(), origin)
+      : NextResponse.next();
   }
 
-  if (
-    origin &&
-    !origin.includes("https://age-detection.kdx.web.id") &&
-    !origin.includes("http://localhost:3000")
-  ) {
-    return NextResponse.json(
-      {
-        error: "Unauthorized",
-        message: "You don't have permission to access this resource.",
-      },
-      { status: 403 }
+  if (req.method === "GET" && PUBLIC_GET_PATHS.includes(req.nextUrl.pathname)) {
+    return withRateLimit(
+      req,
+      `ip:${getClientIp(req)}`,
+      isAllowedOrigin(origin) ? origin : null
     );
   }
 
-  return NextResponse.next();
+  // Server-to-server callers authenticate with an API key instead of an origin
+  const apiKey = getApiKey(req);
+  const apiKeyHash = await verifyApiKey(apiKey);
+
+  if (apiKeyHash) {
+    return withRateLimit(
+      req,
+      `key:${apiKeyHash}`,
+      isAllowedOrigin(origin) ? origin : null
+    );
+  }
+
+  if (isAllowedOrigin(origin)) {
+    return withRateLimit(req, `ip:${getClientIp(req)}`, origin);
+  }
+
+  if (!origin && !apiKey) {
+    return unauthorized(401, "An API key is required for this resource.");
+  }
+
+  return unauthorized(
+    403,
+    "You don't have permission to access this resource."
+  );
 }
 
 export const config = {
-  matcher: "/api/:path*",
+  matcher: ["/api/:path*", "/embed"],
 };
@@ -1,25 +1,65 @@
+import type { z } from "zod";
+import type {
+  ageEstimateSchema,
+  detectJsonRequestSchema,
+  detectRequestSchema,
+  detectResponseSchema,
+  detectedFaceSchema,
+  errorResponseSchema,
+  faceBoundingBoxSchema,
+  metadataKindSchema,
+  modelInfoSchema,
+} from "@/lib/schemas";
+
 export interface AgeDetectionResultBase {
   success: boolean;
   error?: string;
   message?: string;
 }
 
+// `null` marks a value the backend did not report; nothing is filled in
+export type Unknown<T> = T | null;
+
+// Kinds of embedded metadata stripped from a photo before inference
+export type MetadataKind = z.infer<typeof metadataKindSchema>;
+
+export type AgeEstimate = z.infer<typeof ageEstimateSchema>;
+
 export interface AgeDetectionResult extends AgeDetectionResultBase {
-  result?: {
-    age: number;
-    age_range: string;
-    age_min: number;
-    age_max: number;
-    confidence: number;
-    raw_prediction?: number;
-    gender?: string;
-    message: string;
-    method: string;
-    model_info: ModelInfo;
-    timestamp: string;
-    face_detected: boolean;
-    faces_count: number;
-  };
+  metadata_removed?: MetadataKind[];
+  result?: AgeEstimate;
+}
+
+export type ModelInfo = z.infer<typeof modelInfoSchema>;
+
+// Bounding box in pixels of the submitted image
+export type FaceBoundingBox = z.infer<typeof faceBoundingBoxSchema>;
+
+export type DetectedFace = z.infer<typeof detectedFaceSchema>;
+
+// /api/v1/detect
+export type DetectRequest = z.infer<typeof detectRequestSchema>;
+export type DetectJsonRequest = z.infer<typeof detectJsonRequestSchema>;
+export type DetectResponse = z.infer<typeof detectResponseSchema>;
+export type ApiErrorResponse = z.infer<typeof errorResponseSchema>;
+
+// Steps /api/v1/detect reports when asked for text/event-stream, in order
+export type DetectionStage =
+  | "received"
+  | "validated"
+  | "forwarded"
+  | "inference_started";
+
+// A single face as reported by the Python API, bbox is [x, y, width, height]
+export interface RawFaceResponse {
+  bbox?: [number, number, number, number];
+  age?: number;
+  predicted_age?: number;
+  confidence?: number;
+  raw_prediction?: number;
+  gender?: string;
+  age_min?: number;
+  age_max?: number;
 }
 
 export interface RawApiResponse {
@@ -32,24 +72,42 @@ export interface RawApiResponse {
   message?: string;
   timestamp?: string;
   error?: string;
+  faces?: RawFaceResponse[];
   result?: {
     age?: number;
+    age_min?: number;
+    age_max?: number;
     confidence?: number;
     raw_prediction?: number;
     gender?: string;
     message?: string;
+    method?: string;
     timestamp?: string;
     model_info?: {
+      input_size?: string;
       scaling_factor?: number;
+      range_margin?: number;
     };
+    face_detected?: boolean;
     faces_count?: number;
+    faces?: RawFaceResponse[];
   };
 }
 
-interface ModelInfo {
-  input_size: string;
-  scaling_factor: number;
-  range_margin: number;
+// /api/health: the Next.js process is up
+export interface HealthReport {
+  status: "ok";
+  uptime_seconds: number;
+  timestamp: string;
+}
+
+// /api/ready: the inference backend answers and the config is usable. The
+// endpoint is public, so why it isn't ready only goes to the server log
+export interface ReadinessReport {
+  status: "ready" | "not_ready";
+  timestamp: string;
+  backend_reachable: boolean;
+  config_ok: boolean;
 }
 
 // Utility Types
@@ -58,6 +116,198 @@ export type FileValidationResult =
   | { valid: true }
   | { valid: false; error: string };
 
+export type BatchItemStatus = "queued" | "running" | "done" | "failed";
+
+export interface BatchItem {
+  id: string;
+  fileName: string;
+  status: BatchItemStatus;
+  attempts: number;
+  result?: AgeDetectionResult;
+  error?: string;
+}
+
+export type QualityIssueCode =
+  | "blurry"
+  | "too_dark"
+  | "too_bright"
+  | "face_too_small"
+  | "low_resolution";
+
+export interface QualityIssue {
+  code: QualityIssueCode;
+  message: string;
+}
+
+export interface QualityReport {
+  // Variance of the Laplacian, higher is sharper
+  sharpness: number;
+  // Mean luma, 0-255
+  brightness: number;
+  // Largest face width over the shorter side of the frame, null without a face
+  faceRatio: number | null;
+  // Shorter side of the photo in pixels
+  resolution: number;
+  issues: QualityIssue[];
+}
+
+// Preprocessing steps run in order on the photo before upload
+export type PreprocessingStep =
+  | { type: "resize"; enabled: boolean; maxSize: number }
+  // Stretches the histogram, ignoring `clipPercent` of pixels at each end
+  | { type: "autoLevels"; enabled: boolean; clipPercent: number }
+  | { type: "denoise"; enabled: boolean; radius: number }
+  | { type: "grayscale"; enabled: boolean }
+  // Centred crop keeping `scale` of the shorter side at `aspectRatio` (w / h)
+  | { type: "crop"; enabled: boolean; aspectRatio: number; scale: number };
+
+export type PreprocessingStepType = PreprocessingStep["type"];
+
+export interface PreprocessingPreset {
+  name: string;
+  builtIn: boolean;
+  steps: PreprocessingStep[];
+}
+
+export type DetectionSource = "upload" | "camera";
+
+// A past detection kept in the browser's local history
+export interface HistoryEntry {
+  id: string;
+  createdAt: string;
+  // Set when the image was sent again to the backend
+  rerunAt?: string;
+  fileName: string;
+  source: DetectionSource;
+  // Small JPEG data URL for the list
+  thumbnail: string;
+  // The preprocessed photo, sent again on re-run
+  image: Blob;
+  result: AgeDetectionResult;
+  preprocessing: PreprocessingStep[];
+}
+
+export interface HistoryFilter {
+  query: string;
+  // Inclusive dates as yyyy-mm-dd, empty for no bound
+  from: string;
+  to: string;
+  minAge: number | null;
+  maxAge: number | null;
+}
+
+// One detection as it appears in JSON, CSV and printable exports
+export interface ExportRecord {
+  fileName: string;
+  source: Unknown<DetectionSource>;
+  createdAt: string;
+  // Data URL shown in the printable report
+  thumbnail: string;
+  result: AgeDetectionResult;
+}
+
+export type AgeGateStatus = "pass" | "fail" | "needs_review";
+
+export type AgeGateReason =
+  | "above_threshold"
+  | "below_threshold"
+  | "within_buffer"
+  | "low_confidence"
+  | "no_face"
+  | "multiple_faces";
+
+// Server-side rules an age gate decision was made under
+export interface AgeGatePolicy {
+  threshold: number;
+  buffer_years: number;
+  min_confidence: number;
+}
+
+export interface AgeGateDecision {
+  status: AgeGateStatus;
+  reason: AgeGateReason;
+  policy: AgeGatePolicy;
+  // The estimate the decision was based on, null when there was none
+  age: Unknown<number>;
+  age_min: Unknown<number>;
+  age_max: Unknown<number>;
+  confidence: Unknown<number>;
+}
+
+// /api/age-gate POST
+export interface AgeGateResponse extends AgeDetectionResultBase {
+  decision?: AgeGateDecision;
+  metadata_removed?: MetadataKind[];
+}
+
+// /api/age-gate GET: what callers can ask for
+export interface AgeGateOptions {
+  thresholds: number[];
+  buffer_years: number;
+  min_confidence: number;
+}
+
+// An error body with the HTTP status it would have been sent with, for
+// failures reported inside a stream or a job rather than as a response
+export type DetectionFailure = ApiErrorResponse & { status: number };
+
+export type JobStatus = "queued" | "running" | "completed" | "cancelled";
+
+export type JobItemStatus =
+  | "queued"
+  | "running"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export interface JobItem {
+  index: number;
+  file_name: string;
+  status: JobItemStatus;
+  result: DetectResponse | null;
+  error: DetectionFailure | null;
+}
+
+// /api/jobs POST and /api/jobs/:id
+export interface JobReport {
+  success: true;
+  id: string;
+  status: JobStatus;
+  created_at: string;
+  finished_at: string | null;
+  // When the job is forgotten, null while it still has work to do
+  expires_at: string | null;
+  counts: Record<JobItemStatus, number>;
+  items: JobItem[];
+}
+
+// What the detector reports to whoever hosts it
+export type DetectorEvent =
+  | {
+      type: "result";
+      // Set for age estimates
+      result: AgeDetectionResult | null;
+      // Set instead in age check mode
+      decision: AgeGateDecision | null;
+    }
+  | { type: "error"; error: string }
+  | { type: "cancel" };
+
+// DetectorEvent as posted from the /embed iframe to the host page
+export type EmbedMessage = DetectorEvent & { source: "age-detector" };
+
+export type EmbedTheme = "dark" | "light";
+
+// Settings read from the /embed query string
+export interface EmbedConfig {
+  theme: EmbedTheme;
+  camera: boolean;
+  ageGateThreshold: number | null;
+  // Origin the host page listens on, messages go nowhere else. Null when
+  // the host isn't in EMBED_ALLOWED_ORIGINS, and then nothing is shown
+  parentOrigin: string | null;
+}
+
 export interface ResponseTransformer {
   transformApiResponse(rawResponse: RawApiResponse): AgeDetectionResult;
 }